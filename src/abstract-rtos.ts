@@ -0,0 +1,138 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { GDBBackend } from 'cdt-gdb-adapter/dist/GDBBackend';
+import { EXCEPTION_FRAME_SIZE, EXTENDED_FRAME_SIZE, hasExtendedFrame, parseExceptionFrame } from './cortex-m';
+import * as mi from './mi';
+
+export interface RtosTask {
+    // Address of the task control block, stable while the task exists
+    id: number;
+    name: string;
+    state: string;
+    priority?: number;
+    current: boolean;
+}
+
+export type TaskContext = Map<string, number>;
+
+const MAX_TASKS = 256;
+const MAX_NAME_LENGTH = 32;
+
+export abstract class AbstractRtos {
+
+    public abstract readonly name: string;
+
+    constructor(protected gdb: GDBBackend) {
+    }
+
+    /**
+     * List all tasks known to the kernel, the target must be halted
+     */
+    public abstract getTasks(): Promise<RtosTask[]>;
+
+    /**
+     * Recover the registers saved when a task was switched out
+     */
+    public abstract getTaskContext(task: RtosTask): Promise<TaskContext>;
+
+    protected async evaluate(expression: string): Promise<number> {
+        const result = await mi.sendDataEvaluateExpression(this.gdb, `(long long)(${expression})`);
+        const value = parseInt(result.value || '', 10);
+        if (isNaN(value)) {
+            throw new Error(`Unable to evaluate ${expression}`);
+        }
+
+        return value;
+    }
+
+    protected async tryEvaluate(expression: string): Promise<number | undefined> {
+        try {
+            return await this.evaluate(expression);
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    protected readMemory(address: number, length: number): Promise<Buffer> {
+        return mi.readMemory(this.gdb, address, length);
+    }
+
+    protected async readWords(address: number, count: number): Promise<number[]> {
+        const data = await this.readMemory(address, count * 4);
+        return Array.from({ length: count }, (_, i) => data.readUInt32LE(i * 4));
+    }
+
+    protected async readString(address: number, length = MAX_NAME_LENGTH): Promise<string> {
+        if (!address) {
+            return '';
+        }
+
+        const data = await this.readMemory(address, length);
+        const end = data.indexOf(0);
+        return data.toString('latin1', 0, end === -1 ? length : end);
+    }
+
+    /**
+     * Follow a null or sentinel terminated linked list of control blocks
+     */
+    protected async walkList(first: number, next: (item: number) => string, end = 0): Promise<number[]> {
+        const items: number[] = [];
+        let item = first;
+
+        while (item && item !== end && items.length < MAX_TASKS && items.indexOf(item) === -1) {
+            items.push(item);
+            item = await this.evaluate(next(item));
+        }
+
+        return items;
+    }
+
+    /**
+     * Combine the callee saved registers with the exception frame stacked by hardware when the task was switched out
+     */
+    protected async unstackContext(calleeSaved: number[], frameAddress: number, excReturn: number): Promise<TaskContext> {
+        const frame = parseExceptionFrame(await this.readMemory(frameAddress, EXCEPTION_FRAME_SIZE));
+        let sp = frameAddress + (hasExtendedFrame(excReturn) ? EXTENDED_FRAME_SIZE : EXCEPTION_FRAME_SIZE);
+        // Bit 9 of the stacked xPSR records that the stack was realigned on entry
+        if (frame.xpsr & (1 << 9)) {
+            sp += 4;
+        }
+
+        const context: TaskContext = new Map([
+            ['r0', frame.r0],
+            ['r1', frame.r1],
+            ['r2', frame.r2],
+            ['r3', frame.r3]
+        ]);
+        calleeSaved.forEach((value, i) => context.set(`r${i + 4}`, value));
+        context.set('r12', frame.r12);
+        context.set('sp', sp);
+        context.set('lr', frame.lr);
+        context.set('pc', frame.pc);
+        context.set('xpsr', frame.xpsr);
+        return context;
+    }
+}
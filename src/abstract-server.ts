@@ -29,9 +29,45 @@ import { spawn, ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
 import { dirname } from 'path';
 import { CmsisRequestArguments } from './cmsis-debug-session';
+import { PackDevice } from './cmsis-pack';
+import { PortScanner } from './port-scanner';
+import { RTT_ID } from './rtt';
+import { SwoConfiguration } from './swo';
+import { toHex } from './svd';
 import * as nodeProcess from 'process';
 
 const TIMEOUT = 1000 * 10; // 10 seconds
+const KILL_TIMEOUT = 1000 * 2; // 2 seconds
+// Signals sent in turn until the server exits
+const KILL_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM', 'SIGKILL'];
+// Output lines kept to explain why the server stopped
+const MAX_RECENT_LINES = 10;
+
+export interface RttServerChannels {
+    // Monitor commands starting the RTT servers
+    commands: string[];
+    // TCP port serving each channel
+    ports: Map<number, number>;
+}
+
+/**
+ * How the target is reset: the nRST pin, SYSRESETREQ resetting the system, VECTRESET resetting only the core, or not at all
+ */
+export type ResetMode = 'hardware' | 'system' | 'core' | 'none';
+
+export interface ServerRestartConfiguration {
+    // Milliseconds to keep trying to restart the server
+    timeout?: number;
+    // Milliseconds between attempts
+    interval?: number;
+}
+
+export interface SwoServerSource {
+    // Monitor commands starting SWO capture
+    commands: string[];
+    // TCP port streaming the raw SWO data
+    port: number;
+}
 
 export abstract class AbstractServer extends EventEmitter {
 
@@ -41,20 +77,36 @@ export abstract class AbstractServer extends EventEmitter {
     protected launchResolve?: () => void;
     protected launchReject?: (error: any) => void;
     protected timer?: NodeJS.Timer;
+    protected port = 0;
+    protected exited = false;
+    protected stopping = false;
+    protected recentLines: string[] = [];
+    protected defaultCommand = 'gdb-server';
+    protected portScanner: PortScanner;
+    protected probeSerial?: string;
+    // Matches the probe serial number the server reports when connecting
+    protected serialRegex?: RegExp;
 
-    constructor(protected args: CmsisRequestArguments) {
+    constructor(protected args: CmsisRequestArguments, protected device?: PackDevice) {
         super();
+        this.portScanner = new PortScanner(args.portRange);
     }
 
-    public spawn(): Promise<void> {
+    public spawn(port: number): Promise<void> {
         return new Promise(async (resolve, reject) => {
             this.launchResolve = resolve;
             this.launchReject = reject;
+            this.port = port;
+            this.exited = false;
+            this.stopping = false;
+            this.recentLines = [];
+            this.probeSerial = undefined;
 
             try {
-                this.timer = setTimeout(() => this.onSpawnError(new Error('Timeout waiting for gdb server to start')), TIMEOUT);
+                const timeout = this.args.gdbServerTimeout || TIMEOUT;
+                this.timer = setTimeout(() => this.onSpawnError(new Error('Timeout waiting for gdb server to start')), timeout);
 
-                const command = this.args.gdbServer || 'gdb-server';
+                const command = this.args.gdbServer || this.defaultCommand;
                 const serverArguments = await this.resolveServerArguments(this.args.gdbServerArguments);
                 this.process = spawn(command, serverArguments, {
                     cwd: dirname(command),
@@ -65,7 +117,9 @@ export abstract class AbstractServer extends EventEmitter {
                     throw new Error('Unable to spawn gdb server');
                 }
 
-                this.process.on('exit', this.onExit.bind(this));
+                // Ignore a previous server still exiting after a restart
+                const serverProcess = this.process;
+                serverProcess.on('exit', (code, signal) => serverProcess === this.process && this.onExit(code, signal));
                 this.process.on('error', this.onSpawnError.bind(this));
 
                 if (this.process.stdout) {
@@ -80,30 +134,147 @@ export abstract class AbstractServer extends EventEmitter {
         });
     }
 
-    public kill() {
-        if (this.process) {
-            this.process.kill('SIGINT');
+    /**
+     * Stops the server, escalating the signal sent until it exits
+     */
+    public async kill(): Promise<void> {
+        this.stopping = true;
+        this.clearTimer();
+        this.clearPromises();
+
+        const serverProcess = this.process;
+        if (serverProcess) {
+            for (const signal of KILL_SIGNALS) {
+                if (this.exited) {
+                    break;
+                }
+                const exit = this.waitForExit(serverProcess);
+                serverProcess.kill(signal);
+                await exit;
+            }
+            this.process = undefined;
         }
+
+        this.portScanner.releaseAll();
+    }
+
+    /**
+     * Last lines the server printed, most recent last
+     */
+    public get recentOutput(): string[] {
+        return this.recentLines;
     }
 
     public resolveGdbPort(port: number): number {
         return port;
     }
 
+    /**
+     * gdb port of another core of the device, undefined when the server serves a single core
+     */
+    public resolveCorePort(_core: number): number | undefined {
+        return undefined;
+    }
+
+    /**
+     * Monitor commands resetting and halting the target, the server's default reset when no mode is given
+     */
+    public resolveResetCommands(_mode?: ResetMode): string[] {
+        return ['reset halt'];
+    }
+
+    /**
+     * Whether a second gdb connection can read memory while the core runs, most servers accept a single connection
+     */
+    public supportsSecondConnection(): boolean {
+        return false;
+    }
+
+    /**
+     * Serial number of the debug probe in use, undefined when neither the server nor its arguments name it
+     */
+    public resolveProbeSerial(): string | undefined {
+        return this.probeSerial || this.resolveSerialArgument(this.args.gdbServerArguments || []);
+    }
+
+    /**
+     * Monitor commands erasing the whole flash, undefined when the server can't chip erase
+     */
+    public resolveChipEraseCommands(): string[] | undefined {
+        return undefined;
+    }
+
+    /**
+     * Monitor commands and TCP ports serving RTT channels, undefined when the server can't serve RTT
+     */
+    public async resolveRttChannels(_address: number, _searchSize: number, _channels: number[]): Promise<RttServerChannels | undefined> {
+        return undefined;
+    }
+
+    /**
+     * Monitor commands and the TCP port streaming SWO, undefined when the server can't capture SWO
+     */
+    public async resolveSwoSource(_config: SwoConfiguration): Promise<SwoServerSource | undefined> {
+        return undefined;
+    }
+
     protected async resolveServerArguments(serverArguments?: string[]): Promise<string[]> {
         return serverArguments || [];
     }
 
+    /**
+     * OpenOCD style commands serving each channel on its own port
+     */
+    protected async resolveRttServerChannels(address: number, searchSize: number, channels: number[]): Promise<RttServerChannels> {
+        const commands = [
+            `rtt setup ${toHex(address)} ${Math.max(searchSize, RTT_ID.length)} "${RTT_ID}"`,
+            'rtt start'
+        ];
+        const ports = new Map<number, number>();
+        let start = this.port + 1;
+
+        for (const channel of channels) {
+            const port = await this.portScanner.findFreePort(start);
+            if (!port) {
+                throw new Error(`Unable to find a free port for RTT channel ${channel}`);
+            }
+
+            commands.push(`rtt server start ${port} ${channel}`);
+            ports.set(channel, port);
+            start = port + 1;
+        }
+
+        return { commands, ports };
+    }
+
+    /**
+     * Probe serial number selected by the server arguments
+     */
+    protected resolveSerialArgument(_serverArguments: string[]): string | undefined {
+        return undefined;
+    }
+
     private resolveServerEnv(serverEnv?: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
         return serverEnv || nodeProcess.env;
     }
 
-    protected onExit(code: number, signal: string) {
+    private waitForExit(serverProcess: ChildProcess): Promise<void> {
+        return new Promise(resolve => {
+            const timer = setTimeout(resolve, KILL_TIMEOUT);
+            serverProcess.once('exit', () => {
+                clearTimeout(timer);
+                resolve();
+            });
+        });
+    }
+
+    protected onExit(code: number | null, signal: string | null) {
+        this.exited = true;
         this.emit('exit', code, signal);
 
-        // Code can be undefined, null or 0 and we want to ignore those values
-        if (!!code) {
-            this.emit('error', `GDB server stopped unexpectedly with exit code ${code}`);
+        if (!this.stopping) {
+            const reason = code !== null ? `exit code ${code}` : `signal ${signal}`;
+            this.onServerError(`GDB server stopped unexpectedly with ${reason}`);
         }
     }
 
@@ -115,6 +286,17 @@ export abstract class AbstractServer extends EventEmitter {
         }
     }
 
+    /**
+     * Fails the launch, or reports the server failing once it has started
+     */
+    protected onServerError(message: string) {
+        if (this.launchReject) {
+            this.onSpawnError(new Error(message));
+        } else {
+            this.emit('error', message);
+        }
+    }
+
     protected onStdout(chunk: string | Buffer) {
         this.onData(chunk, 'stdout');
     }
@@ -130,6 +312,8 @@ export abstract class AbstractServer extends EventEmitter {
         const end = this[bufferName].lastIndexOf('\n');
         if (end !== -1) {
             const data = this[bufferName].substring(0, end);
+            this.recentLines.push(...data.split(/\r?\n/));
+            this.recentLines.splice(0, this.recentLines.length - MAX_RECENT_LINES);
             this.emit(event, data);
             this.handleData(data);
             this[bufferName] = this[bufferName].substring(end + 1);
@@ -137,14 +321,25 @@ export abstract class AbstractServer extends EventEmitter {
     }
 
     protected handleData(data: string) {
-        if (this.launchResolve && this.serverStarted(data)) {
-            this.clearTimer();
-            this.launchResolve();
-            this.clearPromises();
+        const serial = !this.probeSerial && this.serialRegex ? this.serialRegex.exec(data) : null;
+        if (serial) {
+            this.probeSerial = serial[1];
+        }
+
+        if (this.serverStarted(data)) {
+            this.onServerStarted();
         }
 
         if (this.serverError(data)) {
-            this.emit('error', data.split(EOL)[0]);
+            this.onServerError(data.split(EOL)[0]);
+        }
+    }
+
+    protected onServerStarted() {
+        if (this.launchResolve) {
+            this.clearTimer();
+            this.launchResolve();
+            this.clearPromises();
         }
     }
 
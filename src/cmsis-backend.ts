@@ -23,17 +23,92 @@
 * SOFTWARE.
 */
 
+import { logger } from 'vscode-debugadapter';
 import { GDBBackend } from 'cdt-gdb-adapter/dist/GDBBackend';
 import * as mi from './mi';
 
+// Source and function breakpoints inserted by the base session, without an explicit type
+const CODE_BREAKPOINT_REGEX = /^-break-insert\s(?!(?:.*\s)?-h\s).*--(?:source|function)\s/;
+const VAR_UPDATE_REGEX = /^-var-update\s+(?:\S+\s+)?(\S+)$/;
+const VAR_DELETE_REGEX = /^-var-delete\s+(?:-c\s+)?(\S+)$/;
+
+type VarChange = mi.MIVarUpdateResponse['changelist'][0];
+
+// Changes of a variable object include those of its children
+function isChangeOf(change: VarChange, varname: string): boolean {
+    return change.name === varname || change.name.startsWith(`${varname}.`);
+}
+
 export class CmsisBackend extends GDBBackend {
 
+    // Decides whether code breakpoints should use a hardware comparator when inserted
+    public preferHardwareBreakpoint?: () => Promise<boolean>;
+
+    // Changes taken from other variable objects by updating them all, handed out on their next update
+    protected varChanges: VarChange[] = [];
+
     public get isRunning(): boolean {
         return !!this.out;
     }
 
     public pause() {
-        mi.sendExecInterrupt(this);
+        mi.sendExecInterrupt(this).catch(error => logger.warn(`Unable to pause target: ${error.message}`));
         return true;
     }
+
+    /**
+     * Interrupts the command gdb is running, e.g. a download, as Ctrl-C on its console would
+     */
+    public interrupt(): boolean {
+        return super.pause();
+    }
+
+    /**
+     * Updates every variable object in a single command, returning the changes of the given ones.
+     * gdb reports each change once, those of other variable objects are kept for their next update.
+     */
+    public async sendVarUpdateAll(varnames: string[]): Promise<VarChange[]> {
+        const result = await super.sendCommand<mi.MIVarUpdateResponse>(`-var-update ${mi.MIVarPrintValues.all} *`);
+        const changes: VarChange[] = [];
+
+        for (const change of result.changelist) {
+            if (varnames.some(varname => isChangeOf(change, varname))) {
+                changes.push(change);
+            } else {
+                this.varChanges = this.varChanges.filter(kept => kept.name !== change.name);
+                this.varChanges.push(change);
+            }
+        }
+
+        return changes;
+    }
+
+    public async sendCommand<T>(command: string): Promise<T> {
+        if (this.preferHardwareBreakpoint && CODE_BREAKPOINT_REGEX.test(command) && await this.preferHardwareBreakpoint()) {
+            command = command.replace('-break-insert', '-break-insert -h');
+        }
+
+        const update = this.varChanges.length ? VAR_UPDATE_REGEX.exec(command) : null;
+        const deleted = this.varChanges.length ? VAR_DELETE_REGEX.exec(command) : null;
+        if (deleted) {
+            this.takeVarChanges(deleted[1]);
+        }
+
+        const result = await super.sendCommand<T>(command);
+
+        if (update && update[1] !== '*') {
+            // Changes reported since the full update replace the kept ones
+            const response = result as unknown as mi.MIVarUpdateResponse;
+            const kept = this.takeVarChanges(update[1]).filter(change => !response.changelist.some(item => item.name === change.name));
+            response.changelist = [...kept, ...response.changelist];
+        }
+
+        return result;
+    }
+
+    protected takeVarChanges(varname: string): VarChange[] {
+        const changes = this.varChanges.filter(change => isChangeOf(change, varname));
+        this.varChanges = this.varChanges.filter(change => !isChangeOf(change, varname));
+        return changes;
+    }
 }
@@ -23,41 +23,313 @@
 * SOFTWARE.
 */
 
-import { normalize } from 'path';
+import { basename, normalize } from 'path';
+import { connect, Socket } from 'net';
+import { createReadStream, stat } from 'fs';
+import { promisify } from 'util';
+import { Readable } from 'stream';
 import { DebugProtocol } from 'vscode-debugprotocol';
-import { Logger, logger, InitializedEvent, OutputEvent, Scope, TerminatedEvent } from 'vscode-debugadapter';
-import { GDBDebugSession, RequestArguments, FrameVariableReference, FrameReference } from 'cdt-gdb-adapter/dist/GDBDebugSession';
+import {
+    ContinuedEvent, Event, Handles, Logger, logger, InitializedEvent, InvalidatedEvent, OutputEvent, Scope, Source, StackFrame, TerminatedEvent,
+    Thread
+} from 'vscode-debugadapter';
+import {
+    GDBDebugSession, RequestArguments, FrameVariableReference, CDTDisassembleArguments, VariableReference
+} from 'cdt-gdb-adapter/dist/GDBDebugSession';
 import { GDBBackend } from 'cdt-gdb-adapter/dist/GDBBackend';
+import { VarObjType } from 'cdt-gdb-adapter/dist/varManager';
 import { CmsisBackend } from './cmsis-backend';
-import { PyocdServer } from './pyocd-server';
-import { PortScanner } from './port-scanner';
-import { SymbolTable } from './symbols';
+import { AbstractServer, ResetMode, RttServerChannels, ServerRestartConfiguration } from './abstract-server';
+import { createServer } from './server-registry';
+import { PortRange, PortScanner } from './port-scanner';
+import { SymbolTable, SymbolInformation } from './symbols';
+import { CmsisPack, PackDevice } from './cmsis-pack';
+import { AbstractRtos, RtosTask, TaskContext } from './abstract-rtos';
+import { createRtos, detectRtos } from './rtos-registry';
+import { MemoryAccess, RttConfiguration, RttPoller, RTT_SYMBOL } from './rtt';
+import { LiveMemory } from './live-memory';
+import { LiveWatch, LiveWatchArguments, LiveWatchConfiguration, LiveWatchExpression, resolveLiveWatch } from './live-watch';
+import { SwoConfiguration, SwoReader, configureSwo } from './swo';
+import { MemoryMap } from './memory-map';
+import { Disassembler } from './disassembler';
+import { HardwareUnits, detectHardwareUnits, getHardwareUsage } from './hardware-units';
+import { FlashImage, ImageArguments, ImageCache, LoadMode, parseDownloadStatus } from './flash';
+import { ProgressReporter } from './progress';
+import { CoreGroup, CoreGroupArguments } from './core-group';
+import { REPL_COMMANDS, REPL_PREFIX, ReplInput, formatHelp, formatHexDump, formatRegisters, formatSymbols, globToRegExp, parseReplInput } from './repl';
+import { formatSecurityState, getExceptionFrameOffset, getSecurityState, isFncReturn, isSecureExcReturn } from './trustzone';
+import { GlobalScopeConfiguration, SymbolGroup, filterSymbols, groupSymbols, pageItems } from './global-scope';
+import {
+    EXCEPTION_FRAME_SIZE, SCB_CFSR, SCB_FAULT_REGISTERS_SIZE, decodeControl, decodeFaultStatus, decodeXpsr, getExceptionName,
+    getExceptionNumber, getExcReturnStack, isExcReturn, isFaultException, parseExceptionFrame, parseFaultStatus
+} from './cortex-m';
+import {
+    SvdFile, SvdPeripheral, SvdRegister, findEnumeratedValue, getFieldValue, isReadable, isWritable, parseInteger, setFieldValue, toHex
+} from './svd';
 import * as mi from './mi';
 
 export interface CmsisRequestArguments extends RequestArguments {
     runToMain?: boolean;
     gdbCore?: number;
     gdbServer?: string;
+    gdbServerType?: string;
     gdbServerArguments?: string[];
     gdbServerEnv?: object;
+    gdbServerTimeout?: number;
+    gdbServerRestart?: boolean | ServerRestartConfiguration;
     objdump?: string;
+    gdbTarget?: string;
+    haltOnAttach?: boolean;
+    preConnectCommands?: string[];
+    postConnectCommands?: string[];
+    postLoadCommands?: string[];
+    preDisconnectCommands?: string[];
+    abortOnCommandError?: boolean;
+    svdFile?: string;
+    cmsisPack?: string;
+    deviceName?: string;
+    rtos?: string;
+    rtt?: boolean | RttConfiguration;
+    swo?: SwoConfiguration;
+    memoryRegions?: MemoryRegionArguments[];
+    hardwareBreakpoints?: boolean;
+    breakpointUnits?: number;
+    watchpointUnits?: number;
+    globalScope?: GlobalScopeConfiguration;
+    loadMode?: LoadMode;
+    chipErase?: boolean;
+    additionalImages?: ImageArguments[];
+    resetCommands?: string[];
+    resetMode?: ResetMode;
+    cores?: CoreConfiguration[];
+    haltAllCores?: boolean;
+    coreGroup?: CoreGroupArguments;
+    secureProgram?: string;
+    nonSecureProgram?: string;
+    liveWatch?: LiveWatchConfiguration;
+    portRange?: PortRange;
 }
 
-const GLOBAL_HANDLE_ID = 0xFE;
-const STATIC_HANDLES_START = 0x010000;
-const STATIC_HANDLES_FINISH = 0x01FFFF;
+/**
+ * A further core of the device, debugged in a child session
+ */
+export interface CoreConfiguration extends Partial<CmsisRequestArguments> {
+    core: number;
+    name?: string;
+    program: string;
+}
+
+/**
+ * Client capabilities newer than the debug protocol types
+ */
+interface CmsisInitializeArguments extends DebugProtocol.InitializeRequestArguments {
+    supportsStartDebuggingRequest?: boolean;
+}
+
+export interface MemoryRegionArguments {
+    name?: string;
+    start: string | number;
+    size: string | number;
+    access?: string;
+}
+
+interface GlobalScopeReference {
+    type: 'global';
+}
+
+interface GlobalGroupReference {
+    type: 'globalGroup';
+    group: number;
+}
+
+interface StaticScopeReference {
+    type: 'static';
+    frameHandle: number;
+}
+
+interface RegisterScopeReference {
+    type: 'registers';
+    frameHandle: number;
+}
+
+interface PeripheralScopeReference {
+    type: 'peripherals';
+}
+
+interface PeripheralReference {
+    type: 'peripheral';
+    peripheral: SvdPeripheral;
+    register?: SvdRegister;
+    value?: number;
+}
+
+interface SecurityImage {
+    file: string;
+    secure: boolean;
+}
+
+type ScopeReference = VariableReference | GlobalScopeReference | GlobalGroupReference | StaticScopeReference
+    | RegisterScopeReference | PeripheralScopeReference | PeripheralReference;
+
+const statAsync = promisify(stat);
+
+const DEBUG_TYPE = 'cmsis-debug';
+const START_DEBUGGING_TIMEOUT = 1000 * 10; // 10 seconds
+const LISTEN_TIMEOUT = 1000 * 10; // 10 seconds
+const RESTART_TIMEOUT = 1000 * 60; // 1 minute
+const RESTART_INTERVAL = 1000; // 1 second
+// Settings the sessions of further cores share with the primary core
+const CORE_ARGUMENTS: Array<keyof CmsisRequestArguments> = [
+    'gdb', 'objdump', 'verbose', 'cmsisPack', 'deviceName', 'svdFile', 'abortOnCommandError', 'hardwareBreakpoints', 'globalScope', 'haltAllCores'
+];
+
+const MAX_STACK_DEPTH = 100;
+const RESET_MODES = ['hardware', 'system', 'core'];
+const STOP_SIGNAL_REGEX = /It stopped (?:with signal (\w+)|at a breakpoint)/;
+const DEFAULT_MEMORY_LENGTH = 64;
+const MAX_SYMBOLS = 100;
+const MAX_COMPLETIONS = 100;
+// Adapter commands taking a symbol
+const SYMBOL_COMMANDS = ['mem', 'symbols'];
+
+const WATCHPOINT_REASONS = ['watchpoint-trigger', 'read-watchpoint-trigger', 'access-watchpoint-trigger'];
+// Stops which can leave the core in a fault handler, stepping stays in the code being stepped
+const FAULT_REASONS = ['signal-received', 'breakpoint-hit', undefined];
 
 export class CmsisDebugSession extends GDBDebugSession {
 
-    protected gdbServer: PyocdServer | undefined;
+    protected args!: CmsisRequestArguments;
+    protected gdbServer: AbstractServer | undefined;
+    protected serverPort = 0;
+    protected serverRestarting = false;
+    protected stopping = false;
     protected portScanner = new PortScanner();
     protected symbolTable!: SymbolTable;
     protected globalHandle!: number;
+    protected svdFile: SvdFile | undefined;
+    protected device: PackDevice | undefined;
+    protected registerNames: string[] | undefined;
+    protected rtos: AbstractRtos | undefined;
+    protected rtosTasks = new Map<number, RtosTask>();
+    protected taskContexts = new Map<number, TaskContext>();
+    protected liveMemory: LiveMemory | undefined;
+    protected liveWatch: LiveWatch | undefined;
+    protected remote: string | undefined;
+    protected rttPoller: RttPoller | undefined;
+    protected rttServer: RttServerChannels | undefined;
+    protected rttSockets = new Map<number, Socket>();
+    protected swoReader: SwoReader | undefined;
+    protected swoStream: Readable | undefined;
+    protected memoryMap = new MemoryMap();
+    protected disassembler?: Disassembler;
+    protected hardwareUnits: Partial<HardwareUnits> = {};
+    protected instructionBreakpoints: string[] = [];
+    protected dataBreakpoints: string[] = [];
+    protected supportsVariablePaging = false;
+    protected symbolVarobjs = new Map<string, VarObjType>();
+    protected varobjsStale = false;
+    protected globalSymbols?: SymbolInformation[];
+    protected globalGroups?: SymbolGroup[];
+    protected supportsMemoryReferences = false;
+    protected evaluateReferences = new Map<number, string>();
+    protected supportsProgressReporting = false;
+    protected progress: ProgressReporter | undefined;
+    protected progressCount = 0;
+    protected supportsStartDebugging = false;
+    protected coreGroup: CoreGroup | undefined;
+    protected coreHaltPending = false;
+    protected securityImages: SecurityImage[] = [];
+    protected consoleCapture: string[] | undefined;
+    protected haltedBeforeAttach = false;
+    protected programTime = 0;
+    protected mainBreakpoint: string | undefined;
+    protected targetMemory: MemoryAccess = {
+        isAccessible: () => !this.isRunning,
+        read: (address, length) => this.readMemory(address, length),
+        write: (address, data) => this.writeMemory(address, data)
+    };
+
+    // Scopes share the variable handles of the base session, so every reference comes from one sequence reset on each stop
+    protected get references(): Handles<ScopeReference> {
+        return this.variableHandles as Handles<ScopeReference>;
+    }
 
     protected createBackend(): GDBBackend {
         return new CmsisBackend();
     }
 
+    public sendResponse(response: DebugProtocol.Response): void {
+        // Evaluate results are built by the base class, add the address of the expression once resolved
+        const memoryReference = this.evaluateReferences.get(response.request_seq);
+        if (memoryReference && response.success && response.body) {
+            response.body.memoryReference = memoryReference;
+        }
+        this.evaluateReferences.delete(response.request_seq);
+
+        super.sendResponse(response);
+    }
+
+    protected initializeRequest(response: DebugProtocol.InitializeResponse, args: CmsisInitializeArguments): void {
+        this.supportsMemoryReferences = args.supportsMemoryReferences === true;
+        this.supportsVariablePaging = args.supportsVariablePaging === true;
+        this.supportsProgressReporting = args.supportsProgressReporting === true;
+        this.supportsStartDebugging = args.supportsStartDebuggingRequest === true;
+        response.body = {
+            ...response.body,
+            supportsCancelRequest: true,
+            supportsRestartRequest: true,
+            supportsCompletionsRequest: true,
+            supportsSteppingGranularity: true,
+            supportsInstructionBreakpoints: true,
+            supportsDataBreakpoints: true
+        };
+        super.initializeRequest(response, args);
+    }
+
+    protected cancelRequest(response: DebugProtocol.CancelResponse, args: DebugProtocol.CancelArguments): void {
+        if (this.progress && args.progressId === this.progress.id) {
+            this.progress.cancel();
+        }
+        this.sendResponse(response);
+    }
+
+    protected customRequest(command: string, response: DebugProtocol.Response, args: any): void {
+        if (command === 'cmsis-debug/liveWatch') {
+            this.liveWatchRequest(response, args || {});
+        } else if (command === 'cmsis-debug/reset') {
+            this.resetRequest(response, args || {});
+        } else {
+            super.customRequest(command, response, args);
+        }
+    }
+
+    protected async liveWatchRequest(response: DebugProtocol.Response, args: LiveWatchArguments): Promise<void> {
+        try {
+            const liveWatch = await this.startLiveWatch({ expressions: args.add, interval: args.interval });
+            (args.remove || []).forEach(expression => liveWatch.remove(expression));
+            response.body = {
+                watches: liveWatch.getWatches().map(watch => ({
+                    expression: watch.expression,
+                    address: toHex(watch.address),
+                    type: watch.type,
+                    value: watch.value
+                }))
+            };
+            this.sendResponse(response);
+        } catch (err) {
+            this.sendErrorResponse(response, 1, err.message);
+        }
+    }
+
+    protected async resetRequest(response: DebugProtocol.Response, args: { mode?: ResetMode }): Promise<void> {
+        try {
+            await this.resetSession(args.mode);
+            this.sendResponse(response);
+        } catch (err) {
+            this.sendErrorResponse(response, 1, err.message);
+        }
+    }
+
     protected async launchRequest(response: DebugProtocol.LaunchResponse, args: CmsisRequestArguments): Promise<void> {
         try {
             await this.runSession(args);
@@ -69,6 +341,7 @@ export class CmsisDebugSession extends GDBDebugSession {
 
     protected async attachRequest(response: DebugProtocol.AttachResponse, args: CmsisRequestArguments): Promise<void> {
         try {
+            this.isAttach = true;
             await this.runSession(args);
             this.sendResponse(response);
         } catch (err) {
@@ -78,22 +351,98 @@ export class CmsisDebugSession extends GDBDebugSession {
 
     protected async configurationDoneRequest(response: DebugProtocol.ConfigurationDoneResponse): Promise<void> {
         try {
-            await mi.sendExecContinue(this.gdb);
+            await this.startTarget();
             this.sendResponse(response);
         } catch (err) {
             this.sendErrorResponse(response, 100, err.message);
         }
     }
 
+    protected async restartRequest(response: DebugProtocol.RestartResponse, args: DebugProtocol.RestartArguments): Promise<void> {
+        try {
+            await this.restartSession(args.arguments ? args.arguments as CmsisRequestArguments : this.args);
+            this.sendResponse(response);
+        } catch (err) {
+            this.sendErrorResponse(response, 1, err.message);
+        }
+    }
+
     protected async pauseRequest(response: DebugProtocol.PauseResponse, args: DebugProtocol.PauseArguments): Promise<void> {
         try {
-            await mi.sendExecInterrupt(this.gdb, args.threadId);
+            await mi.sendExecInterrupt(this.gdb, this.resolveThreadId(args.threadId));
             this.sendResponse(response);
         } catch (err) {
             this.sendErrorResponse(response, 1, err.message);
         }
     }
 
+    protected async continueRequest(response: DebugProtocol.ContinueResponse, args: DebugProtocol.ContinueArguments): Promise<void> {
+        await super.continueRequest(response, { ...args, threadId: this.resolveThreadId(args.threadId) });
+        if (this.coreGroup) {
+            this.coreGroup.send('resume');
+        }
+    }
+
+    protected async nextRequest(response: DebugProtocol.NextResponse, args: DebugProtocol.NextArguments): Promise<void> {
+        if (args.granularity === 'instruction') {
+            return this.stepInstruction(response, mi.sendExecNextInstruction, args.threadId);
+        }
+
+        return super.nextRequest(response, { ...args, threadId: this.resolveThreadId(args.threadId) });
+    }
+
+    protected async stepInRequest(response: DebugProtocol.StepInResponse, args: DebugProtocol.StepInArguments): Promise<void> {
+        if (args.granularity === 'instruction') {
+            return this.stepInstruction(response, mi.sendExecStepInstruction, args.threadId);
+        }
+
+        return super.stepInRequest(response, { ...args, threadId: this.resolveThreadId(args.threadId) });
+    }
+
+    protected async stepOutRequest(response: DebugProtocol.StepOutResponse, args: DebugProtocol.StepOutArguments): Promise<void> {
+        return super.stepOutRequest(response, { ...args, threadId: this.resolveThreadId(args.threadId) });
+    }
+
+    protected async threadsRequest(response: DebugProtocol.ThreadsResponse): Promise<void> {
+        if (!this.rtos || this.isRunning) {
+            return super.threadsRequest(response);
+        }
+
+        try {
+            const result = await mi.sendThreadInfoRequest(this.gdb, {});
+            // Defer to the gdb server when it already reports the tasks as threads
+            if (result.threads.length !== 1) {
+                return super.threadsRequest(response);
+            }
+
+            // The running task is the hardware thread so execution control still applies to it
+            const hardwareThread = this.convertThread(result.threads[0]);
+            const tasks = await this.rtos.getTasks();
+            this.rtosTasks.clear();
+            this.taskContexts.clear();
+
+            this.threads = tasks.map(task => {
+                const id = task.current ? hardwareThread.id : task.id;
+                this.rtosTasks.set(id, task);
+                const priority = task.priority !== undefined ? `, priority ${task.priority}` : '';
+                return new Thread(id, `${task.name} (${task.state}${priority})`);
+            });
+
+            // Before the scheduler starts no task is running
+            if (!tasks.some(task => task.current)) {
+                this.threads.unshift(hardwareThread);
+            }
+
+            response.body = {
+                threads: this.threads
+            };
+            this.sendResponse(response);
+        } catch (err) {
+            logger.warn(`Unable to read ${this.rtos.name} tasks: ${err.message}`);
+            return super.threadsRequest(response);
+        }
+    }
+
     protected async stackTraceRequest(response: DebugProtocol.StackTraceResponse, args: DebugProtocol.StackTraceArguments): Promise<void> {
         try {
             this.globalHandle = this.frameHandles.create({
@@ -101,27 +450,75 @@ export class CmsisDebugSession extends GDBDebugSession {
                 frameId: -1
             });
 
+            if (this.isTaskThread(args.threadId)) {
+                const stackFrames = await this.getTaskStackFrames(args.threadId);
+                response.body = {
+                    stackFrames,
+                    totalFrames: stackFrames.length
+                };
+                this.sendResponse(response);
+                return;
+            }
+
+            if (this.securityImages.length > 0) {
+                const stackFrames = await this.getSecurityStackFrames(args.threadId);
+                const start = args.startFrame || 0;
+                response.body = {
+                    stackFrames: stackFrames.slice(start, args.levels ? start + args.levels : undefined),
+                    totalFrames: stackFrames.length
+                };
+                this.sendResponse(response);
+                return;
+            }
+
             return super.stackTraceRequest(response, args);
         } catch (err) {
             this.sendErrorResponse(response, 1, err.message);
         }
     }
 
-    protected scopesRequest(response: DebugProtocol.ScopesResponse, args: DebugProtocol.ScopesArguments): void {
+    protected async scopesRequest(response: DebugProtocol.ScopesResponse, args: DebugProtocol.ScopesArguments): Promise<void> {
         try {
             const frame: FrameVariableReference = {
                 type: 'frame',
                 frameHandle: args.frameId,
             };
 
+            const frameHandle = args.frameId;
+            const globalScope: DebugProtocol.Scope = new Scope('Global', this.references.create({ type: 'global' }), false);
+            const staticScope: DebugProtocol.Scope = new Scope('Static', this.references.create({ type: 'static', frameHandle }), false);
             response.body = {
                 scopes: [
-                    new Scope('Local', this.variableHandles.create(frame), false),
-                    new Scope('Global', GLOBAL_HANDLE_ID, false),
-                    new Scope('Static', STATIC_HANDLES_START + parseInt(args.frameId as any, 10), false)
+                    new Scope('Local', this.references.create(frame), false),
+                    globalScope,
+                    staticScope,
+                    new Scope('Registers', this.references.create({ type: 'registers', frameHandle }), false)
                 ],
             };
 
+            // Tasks which aren't running are unknown to gdb, only their saved registers are available
+            const frameRef = this.frameHandles.get(args.frameId);
+            const isTask = frameRef && this.isTaskThread(frameRef.threadId);
+            if (isTask) {
+                response.body.scopes = response.body.scopes.filter(scope => scope.name === 'Global' || scope.name === 'Registers');
+            }
+
+            // Let clients page through large scopes rather than loading every variable
+            if (this.supportsVariablePaging && this.symbolTable) {
+                if (this.getGlobalGroups()) {
+                    globalScope.namedVariables = this.getGlobalGroups()!.length;
+                } else {
+                    globalScope.indexedVariables = this.getGlobalSymbols().length;
+                }
+                if (!isTask) {
+                    staticScope.indexedVariables = (await this.getStaticSymbols(args.frameId)).length;
+                }
+            }
+
+            if (this.svdFile) {
+                response.body.scopes.push(new Scope('Peripherals', this.references.create({ type: 'peripherals' }), true));
+            }
+
             this.sendResponse(response);
         } catch (err) {
             this.sendErrorResponse(response, 1, err.message);
@@ -134,18 +531,26 @@ export class CmsisDebugSession extends GDBDebugSession {
                 variables: new Array<DebugProtocol.Variable>()
             };
 
-            const ref = this.variableHandles.get(args.variablesReference);
+            const ref = this.references.get(args.variablesReference);
 
-            if (args.variablesReference === GLOBAL_HANDLE_ID) {
-                // Use hardcoded global handle to load and store global variables
-                response.body.variables = await this.getGlobalVariables(this.globalHandle);
-            } else if (args.variablesReference >= STATIC_HANDLES_START && args.variablesReference <= STATIC_HANDLES_FINISH) {
-                // Use STATIC_HANDLES_START to shift the framehandles back
-                const frameHandle = args.variablesReference - STATIC_HANDLES_START;
-                response.body.variables = await this.getStaticVariables(frameHandle);
+            if (ref && ref.type === 'global') {
+                response.body.variables = await this.getGlobalVariables(args);
+            } else if (ref && ref.type === 'globalGroup') {
+                response.body.variables = await this.getGlobalGroupVariables(ref.group, args);
+            } else if (ref && ref.type === 'static') {
+                response.body.variables = await this.getStaticVariables(ref.frameHandle, args);
+            } else if (ref && ref.type === 'registers') {
+                response.body.variables = await this.getRegisters(ref.frameHandle);
+            } else if (ref && ref.type === 'peripherals') {
+                response.body.variables = this.getPeripherals();
+            } else if (ref && ref.type === 'peripheral') {
+                response.body.variables = await this.getPeripheralVariables(ref);
             } else if (ref && ref.type === 'frame') {
                 // List variables for current frame
                 response.body.variables = await this.handleVariableRequestFrame(ref);
+                if (this.supportsMemoryReferences) {
+                    await this.addMemoryReferences(response.body.variables, ref.frameHandle);
+                }
             } else if (ref && ref.type === 'object') {
                 // List data under any variable
                 response.body.variables = await this.handleVariableRequestObject(ref);
@@ -157,25 +562,59 @@ export class CmsisDebugSession extends GDBDebugSession {
         }
     }
 
-    protected async evaluateRequest(response: DebugProtocol.EvaluateResponse, args: DebugProtocol.EvaluateArguments): Promise<void> {
+    protected async setVariableRequest(response: DebugProtocol.SetVariableResponse, args: DebugProtocol.SetVariableArguments): Promise<void> {
+        // Any assignment can change the value of globals through pointers
+        this.varobjsStale = true;
+
+        const ref = this.references.get(args.variablesReference);
+        if (!ref || ref.type !== 'peripheral') {
+            return super.setVariableRequest(response, args);
+        }
+
         try {
-            if (args.context === 'repl') {
-                const command = args.expression;
-                const output = await mi.sendUserInput(this.gdb, command);
-                if (typeof output === 'undefined') {
-                    response.body = {
-                        result: '',
-                        variablesReference: 0
-                    };
-                } else {
-                    response.body = {
-                        result: JSON.stringify(output),
-                        variablesReference: 0
-                    };
-                }
+            response.body = {
+                value: await this.setPeripheralVariable(ref, args.name, args.value)
+            };
+            this.sendResponse(response);
+        } catch (err) {
+            this.sendErrorResponse(response, 1, err.message);
+        }
+    }
 
+    protected async evaluateRequest(response: DebugProtocol.EvaluateResponse, args: DebugProtocol.EvaluateArguments): Promise<void> {
+        try {
+            const replInput = args.context === 'repl' ? parseReplInput(args.expression) : undefined;
+            if (args.context === 'repl' && args.expression.startsWith('>') && this.isRttEnabled()) {
+                // Send the rest of the line to the target on RTT down-buffer 0
+                await this.writeRtt(`${args.expression.substring(1)}\n`);
+                response.body = {
+                    result: '',
+                    variablesReference: 0
+                };
+                this.sendResponse(response);
+            } else if (replInput) {
+                response.body = {
+                    result: await this.executeReplCommand(replInput),
+                    variablesReference: 0
+                };
+                this.sendResponse(response);
+            } else if (args.context === 'repl') {
+                const output = await this.sendConsoleCommand(args.expression);
+                this.varobjsStale = true;
+                response.body = {
+                    result: output,
+                    variablesReference: 0
+                };
                 this.sendResponse(response);
             } else {
+                const frame = args.frameId !== undefined ? this.frameHandles.get(args.frameId) : undefined;
+                if (this.supportsMemoryReferences && frame && !this.isTaskThread(frame.threadId)) {
+                    const address = await this.getExpressionAddress(args.expression, frame.threadId, frame.frameId);
+                    if (address !== undefined) {
+                        this.evaluateReferences.set(response.request_seq, toHex(address));
+                    }
+                }
+
                 return super.evaluateRequest(response, args);
             }
         } catch (err) {
@@ -183,182 +622,1990 @@ export class CmsisDebugSession extends GDBDebugSession {
         }
     }
 
-    protected async disconnectRequest(response: DebugProtocol.DisconnectResponse, args: DebugProtocol.DisconnectArguments): Promise<void> {
+    protected async completionsRequest(response: DebugProtocol.CompletionsResponse, args: DebugProtocol.CompletionsArguments): Promise<void> {
         try {
-            this.stopSession();
-            if (!args || !args.restart) {
-                this.sendEvent(new TerminatedEvent());
-            }
+            const column = this.convertClientColumnToDebugger(args.column);
+            response.body = {
+                targets: await this.getCompletions(args.text.substring(0, column - 1))
+            };
             this.sendResponse(response);
         } catch (err) {
             this.sendErrorResponse(response, 1, err.message);
         }
     }
 
-    private async runSession(args: CmsisRequestArguments): Promise<void> {
-        logger.setup(args.verbose ? Logger.LogLevel.Verbose : Logger.LogLevel.Warn, args.logFile || false);
-
-        this.gdb.on('consoleStreamOutput', (output, category) => this.sendEvent(new OutputEvent(output, category)));
-        this.gdb.on('execAsync', (resultClass, resultData) => this.handleGDBAsync(resultClass, resultData));
-        this.gdb.on('notifyAsync', (resultClass, resultData) => this.handleGDBNotify(resultClass, resultData));
-
-        // Load debug symbols
+    protected async readMemoryRequest(response: DebugProtocol.ReadMemoryResponse, args: DebugProtocol.ReadMemoryArguments): Promise<void> {
         try {
-            this.symbolTable = new SymbolTable(args.program, args.objdump);
-            await this.symbolTable.loadSymbols();
-        } catch (error) {
-            this.sendEvent(new OutputEvent(`Unable to load debug symbols: ${error.message}`));
-        }
+            const address = await this.resolveMemoryReference(args.memoryReference) + (args.offset || 0);
+            const length = this.memoryMap.getAccessibleLength(address, args.count);
+            if (length === 0 && args.count > 0) {
+                throw new Error(`Unable to read unmapped memory at ${toHex(address)}`);
+            }
 
-        // Determine free port for gdb server
-        const serverPort = await this.portScanner.findFreePort();
-        if (!serverPort) {
-            throw new Error('Unable to find a free port to use for debugging');
+            // Reads stop at the end of the mapped memory, the rest is reported as unreadable
+            const data = length ? await mi.readMemory(this.gdb, address, length) : Buffer.alloc(0);
+            response.body = {
+                address: toHex(address),
+                data: data.toString('base64'),
+                unreadableBytes: args.count - length
+            };
+            this.sendResponse(response);
+        } catch (err) {
+            this.sendErrorResponse(response, 1, err.message);
         }
-        this.sendEvent(new OutputEvent(`Selected port ${serverPort} for debugging`));
+    }
 
-        // Set gdb arguments
-        if (!args.gdbArguments) {
-            args.gdbArguments = [];
-        }
-        args.gdbArguments.push('-q', args.program);
+    protected async writeMemoryRequest(response: DebugProtocol.WriteMemoryResponse, args: DebugProtocol.WriteMemoryArguments): Promise<void> {
+        try {
+            const address = await this.resolveMemoryReference(args.memoryReference) + (args.offset || 0);
+            const data = Buffer.from(args.data, 'base64');
+            const length = this.memoryMap.getAccessibleLength(address, data.length, true);
+            if (length < data.length && !(args.allowPartial && length > 0)) {
+                throw new Error(`Unable to write ${data.length} bytes at ${toHex(address)}, ${toHex(address + length)} is not writable memory`);
+            }
 
-        // Set gdb server arguments
-        if (!args.gdbServerArguments) {
-            args.gdbServerArguments = [];
+            await mi.writeMemory(this.gdb, address, data.slice(0, length));
+            this.varobjsStale = true;
+            response.body = {
+                bytesWritten: length
+            };
+            this.sendResponse(response);
+            this.sendEvent(new InvalidatedEvent(['variables']));
+        } catch (err) {
+            this.sendErrorResponse(response, 1, err.message);
         }
-        args.gdbServerArguments.push('--port', serverPort.toString());
+    }
 
-        // gdb server has main info channel on stderr
-        this.gdbServer = new PyocdServer(args);
-        this.gdbServer.on('stderr', data => this.sendEvent(new OutputEvent(data, 'stdout')));
-        this.gdbServer.on('error', message => {
-            this.sendEvent(new TerminatedEvent());
-            throw message;
-        });
+    protected async setInstructionBreakpointsRequest(response: DebugProtocol.SetInstructionBreakpointsResponse,
+                                                     args: DebugProtocol.SetInstructionBreakpointsArguments): Promise<void> {
+        try {
+            const breakpoints = await this.whilePaused(async () => {
+                // Breakpoints are replaced as a set, gdb renumbers them on insertion
+                if (this.instructionBreakpoints.length) {
+                    await mi.sendBreakDelete(this.gdb, { breakpoints: this.instructionBreakpoints });
+                    this.instructionBreakpoints = [];
+                }
 
-        // Start gdb server and client
-        this.progressEvent(0, 'Starting Debugger');
-        await this.gdbServer.spawn();
-        await this.spawn(args);
+                const actual: DebugProtocol.Breakpoint[] = [];
+                for (const breakpoint of args.breakpoints) {
+                    try {
+                        const address = await this.resolveMemoryReference(breakpoint.instructionReference) + (breakpoint.offset || 0);
+                        const hardware = await this.useHardwareBreakpoint(address);
+                        const bkpt = await mi.sendBreakAddressInsert(this.gdb, address, hardware);
+                        this.instructionBreakpoints.push(bkpt.number);
+                        await this.setBreakpointOptions(bkpt.number, breakpoint.condition, breakpoint.hitCondition);
+                        actual.push({
+                            id: parseInt(bkpt.number, 10),
+                            verified: true,
+                            instructionReference: toHex(address)
+                        });
+                    } catch (err) {
+                        actual.push({
+                            verified: false,
+                            message: err.message
+                        });
+                    }
+                }
 
-        // Find correct debug client port
-        const clientPort = this.gdbServer.resolveGdbPort(serverPort);
-        const remote = `localhost:${clientPort}`;
-
-        // Send commands
-        await mi.sendTargetAsyncOn(this.gdb);
-        await mi.sendTargetSelectRemote(this.gdb, remote);
-        await mi.sendMonitorResetHalt(this.gdb);
-        this.sendEvent(new OutputEvent(`Attached to debugger on port ${clientPort}`));
-
-        // Download image
-        const progressListener = (percent: number) => this.progressEvent(percent, 'Loading Image');
-        progressListener(0);
-        this.gdbServer.on('progress', progressListener);
-        await mi.sendTargetDownload(this.gdb);
-        this.gdbServer.off('progress', progressListener);
-        progressListener(100);
-
-        // Halt after image download
-        await mi.sendMonitorResetHalt(this.gdb);
-        await this.gdb.sendEnablePrettyPrint();
+                return actual;
+            });
 
-        if (args.runToMain === true) {
-            await mi.sendBreakFunctionInsert(this.gdb, 'main');
+            response.body = {
+                breakpoints
+            };
+            this.sendResponse(response);
+        } catch (err) {
+            this.sendErrorResponse(response, 1, err.message);
         }
+    }
 
-        this.sendEvent(new OutputEvent(`Image loaded: ${args.program}`));
-        this.sendEvent(new InitializedEvent());
+    protected dataBreakpointInfoRequest(response: DebugProtocol.DataBreakpointInfoResponse, args: DebugProtocol.DataBreakpointInfoArguments): void {
+        // Watchpoints are limited to globals, locals would leave scope and hold a comparator on a stale address
+        const ref = args.variablesReference !== undefined ? this.references.get(args.variablesReference) : undefined;
+        const isGlobal = args.variablesReference === undefined || (!!ref && (ref.type === 'global' || ref.type === 'globalGroup'));
+        const symbol = isGlobal && this.symbolTable ? this.symbolTable.getGlobalVariables().find(s => s.name === args.name) : undefined;
+
+        response.body = symbol ? {
+            dataId: symbol.name,
+            description: `${symbol.name} (${symbol.length} bytes at ${toHex(symbol.address)})`,
+            accessTypes: ['read', 'write', 'readWrite'],
+            canPersist: true
+        } : {
+            dataId: null,
+            description: 'Data breakpoints are only supported on global variables'
+        };
+        this.sendResponse(response);
     }
 
-    private async getGlobalVariables(frameHandle: number): Promise<DebugProtocol.Variable[]> {
-        const frame = this.frameHandles.get(frameHandle);
-        const symbolInfo = this.symbolTable.getGlobalVariables();
-        const variables: DebugProtocol.Variable[] = [];
+    protected async setDataBreakpointsRequest(response: DebugProtocol.SetDataBreakpointsResponse,
+                                              args: DebugProtocol.SetDataBreakpointsArguments): Promise<void> {
+        try {
+            const breakpoints = await this.whilePaused(async () => {
+                if (this.dataBreakpoints.length) {
+                    await mi.sendBreakDelete(this.gdb, { breakpoints: this.dataBreakpoints });
+                    this.dataBreakpoints = [];
+                }
 
-        for (const symbol of symbolInfo) {
-            const name = `global_var_${symbol.name}`;
-            const variable = await this.getVariables(frame, name, symbol.name, -1);
-            variables.push(variable);
-        }
+                const actual: DebugProtocol.Breakpoint[] = [];
+                for (const breakpoint of args.breakpoints) {
+                    try {
+                        if (!await this.hasFreeHardwareUnit('watchpoints')) {
+                            throw new Error(`Unable to watch ${breakpoint.dataId}, all ${this.hardwareUnits.watchpoints} hardware watchpoint units are in use`);
+                        }
 
-        return variables;
-    }
+                        const watchpoint = await mi.sendBreakWatch(this.gdb, breakpoint.dataId, breakpoint.accessType);
+                        this.dataBreakpoints.push(watchpoint.number);
+                        await this.setBreakpointOptions(watchpoint.number, breakpoint.condition, breakpoint.hitCondition);
+                        actual.push({
+                            id: parseInt(watchpoint.number, 10),
+                            verified: true
+                        });
+                    } catch (err) {
+                        actual.push({
+                            verified: false,
+                            message: err.message
+                        });
+                    }
+                }
 
-    private async getStaticVariables(frameHandle: number): Promise<DebugProtocol.Variable[]> {
-        const frame = this.frameHandles.get(frameHandle);
-        const result = await mi.sendStackInfoFrame(this.gdb, frame.threadId, frame.frameId);
-        const file = normalize(result.frame.file || '');
-        const symbolInfo = this.symbolTable.getStaticVariables(file);
-        const variables: DebugProtocol.Variable[] = [];
+                return actual;
+            });
 
-        // Fetch stack depth to obtain frameId/threadId/depth tuple
-        const stackDepth = await mi.sendStackInfoDepth(this.gdb, { maxDepth: 100 });
-        const depth = parseInt(stackDepth.depth, 10);
+            response.body = {
+                breakpoints
+            };
+            this.sendResponse(response);
+        } catch (err) {
+            this.sendErrorResponse(response, 1, err.message);
+        }
+    }
 
-        for (const symbol of symbolInfo) {
-            const name = `${file}_static_var_${symbol.name}`;
-            const variable = await this.getVariables(frame, name, symbol.name, depth);
-            variables.push(variable);
+    protected async disassembleRequest(response: DebugProtocol.DisassembleResponse, args: CDTDisassembleArguments): Promise<void> {
+        // Ranges bounded by an end reference are only requested by CDT clients
+        if (!this.disassembler || args.endMemoryReference) {
+            return super.disassembleRequest(response, args);
         }
 
-        return variables;
+        try {
+            const address = await this.resolveMemoryReference(args.memoryReference) + (args.offset || 0);
+            const instructions = await this.disassembler.disassemble(address, args.instructionOffset || 0, args.instructionCount);
+            response.body = {
+                instructions
+            };
+            this.sendResponse(response);
+        } catch (err) {
+            this.sendErrorResponse(response, 1, err.message);
+        }
     }
 
-    private async getVariables(frame: FrameReference, name: string, expression: string, depth: number): Promise<DebugProtocol.Variable> {
-        let global = this.gdb.varManager.getVar(frame.frameId, frame.threadId, depth, name);
-
-        if (global) {
-            // Update value if it is already loaded
-            const vup = await mi.sendVarUpdate(this.gdb, { name });
-            const update = vup.changelist[0];
-            if (update && update.in_scope === 'true' && update.name === global.varname) {
-                global.value = update.value;
+    protected async disconnectRequest(response: DebugProtocol.DisconnectResponse, args: DebugProtocol.DisconnectArguments): Promise<void> {
+        try {
+            await this.stopSession();
+            if (!args || !args.restart) {
+                this.sendEvent(new TerminatedEvent());
             }
+            this.sendResponse(response);
+        } catch (err) {
+            this.sendErrorResponse(response, 1, err.message);
+        }
+    }
+
+    protected handleGDBStopped(result: any): void {
+        // Values of globals and statics are refreshed together on the next request
+        this.varobjsStale = true;
+
+        // The adapter pauses briefly to change breakpoints or access memory, resuming only this core afterwards
+        const internalPause = !!this.waitPaused && result.reason === 'signal-received';
+
+        // Halt the other cores, unless this core was halted for them
+        if (this.coreGroup && !this.coreHaltPending && !internalPause) {
+            this.coreGroup.send('halt');
+        }
+        this.coreHaltPending = false;
+
+        if (result.reason === 'breakpoint-hit' && this.instructionBreakpoints.indexOf(result.bkptno) !== -1) {
+            this.sendStoppedEvent('instruction breakpoint', parseInt(result['thread-id'], 10), result['stopped-threads'] === 'all');
+        } else if (WATCHPOINT_REASONS.indexOf(result.reason) !== -1) {
+            this.sendStoppedEvent('data breakpoint', parseInt(result['thread-id'], 10), result['stopped-threads'] === 'all');
         } else {
-            // create var in GDB and store it in the varMgr
-            const varCreateResponse = await mi.sendVarCreate(this.gdb, {
-                name,
-                frame: 'current',
-                expression,
-            });
+            super.handleGDBStopped(result);
+        }
+        // The base session resolves the pause without clearing it, a later stop would look internal too
+        if (internalPause) {
+            this.waitPaused = undefined;
+        }
 
-            global = this.gdb.varManager.addVar(frame.frameId, frame.threadId, depth, name, true, false, varCreateResponse);
+        if (FAULT_REASONS.indexOf(result.reason) !== -1 && !internalPause) {
+            this.reportFault().catch(error => logger.warn(`Unable to check for faults: ${error.message}`));
         }
 
-        return {
-            name: expression,
-            value: (global.value === void 0) ? '<unknown>' : global.value,
-            type: global.type,
-            variablesReference: parseInt(global.numchild, 10) > 0
-                ? this.variableHandles.create({
-                    frameHandle: this.globalHandle,
-                    type: 'object',
-                    varobjName: global.varname,
-                })
-                : 0,
-        };
-    }
+        // Collect output written since the last poll, or start RTT once the target has initialised it
+        if (this.rttPoller) {
+            this.rttPoller.poll().catch(error => logger.warn(`Unable to read RTT: ${error.message}`));
+        }
+        if (this.rttServer && !this.rttSockets.size) {
+            this.startServerRtt().catch(error => logger.warn(`Unable to start RTT: ${error.message}`));
+        }
 
-    private progressEvent(percent: number, message: string) {
-        this.sendEvent(new OutputEvent('progress', 'telemetry', {
-            percent,
-            message
-        }));
+        // Report where the core spent its time since it was last resumed
+        if (this.swoReader && this.swoReader.profile.count) {
+            const lines = this.swoReader.profile.format(this.symbolTable);
+            this.sendEvent(new OutputEvent(`PC sampling profile (${this.swoReader.profile.count} samples):\n${lines.join('\n')}\n`, 'console'));
+            this.swoReader.profile.reset();
+        }
     }
 
-    protected async stopSession() {
-        // Pause debugging
-        if (this.isRunning) {
-            // Need to pause first
+    private async runSession(args: CmsisRequestArguments): Promise<void> {
+        logger.setup(args.verbose ? Logger.LogLevel.Verbose : Logger.LogLevel.Warn, args.logFile || false);
+        this.args = args;
+
+        this.gdb.on('consoleStreamOutput', (output, category) => this.handleConsoleOutput(output, category));
+        this.gdb.on('execAsync', (resultClass, resultData) => this.handleGDBAsync(resultClass, resultData));
+        this.gdb.on('notifyAsync', (resultClass, resultData) => this.handleGDBNotify(resultClass, resultData));
+
+        await this.loadSymbols(args);
+
+        // Resolve device information from a CMSIS-Pack
+        let pack: CmsisPack | undefined;
+        if (args.cmsisPack) {
+            try {
+                pack = new CmsisPack(args.cmsisPack);
+                await pack.load();
+                this.device = pack.getDevice(args.deviceName);
+                this.sendEvent(new OutputEvent(`Using device ${this.device.name} from ${args.cmsisPack}`));
+            } catch (error) {
+                this.sendEvent(new OutputEvent(`Unable to load CMSIS-Pack: ${error.message}`));
+            }
+        }
+
+        // Load peripheral descriptions, preferring an explicit SVD file to the one in the pack
+        try {
+            if (args.svdFile) {
+                const svdFile = new SvdFile(args.svdFile);
+                await svdFile.loadPeripherals();
+                this.svdFile = svdFile;
+            } else if (pack && this.device && this.device.svd) {
+                const svdFile = new SvdFile(this.device.svd);
+                const contents = await pack.readFile(this.device.svd);
+                await svdFile.loadPeripherals(contents.toString('utf8'));
+                this.svdFile = svdFile;
+            }
+        } catch (error) {
+            this.sendEvent(new OutputEvent(`Unable to load SVD file: ${error.message}`));
+        }
+
+        this.rtos = this.resolveRtos(args);
+        this.buildMemoryMap(args);
+        this.disassembler = new Disassembler(this.gdb, this.memoryMap, this.symbolTable);
+
+        // Set gdb arguments
+        if (!args.gdbArguments) {
+            args.gdbArguments = [];
+        }
+        args.gdbArguments.push('-q', args.program);
+
+        // Start gdb server and client, unless attaching to an external server
+        const progress = this.startProgress('Starting Debugger');
+        let remote: string;
+        try {
+            remote = (this.isAttach && args.gdbTarget) ? args.gdbTarget : await this.startServer(args);
+            await this.spawn(args);
+
+            // gdb debugs both security worlds with the symbols of the other one added
+            for (const image of this.securityImages.filter(item => item.file !== args.program)) {
+                await mi.sendAddSymbolFile(this.gdb, image.file);
+            }
+
+            // Send commands
+            await mi.sendTargetAsyncOn(this.gdb);
+            await this.sendCommands(args.preConnectCommands, 'pre-connect');
+            await mi.sendTargetSelectRemote(this.gdb, remote);
+        } finally {
+            progress.end();
+        }
+        this.sendEvent(new OutputEvent(`Attached to debugger on ${remote}`));
+        this.remote = remote;
+        if (this.isAttach) {
+            this.haltedBeforeAttach = await this.isHaltedBeforeConnect();
+        }
+
+        if (args.coreGroup) {
+            await this.joinCoreGroup(args.coreGroup);
+        }
+
+        // Leave the target untouched when attaching, unless a further core has its own reset
+        if (!this.isAttach || (args.coreGroup && args.resetCommands)) {
+            await this.resetTarget(this.args.resetMode);
+        }
+        await this.sendCommands(args.postConnectCommands, 'post-connect');
+        await this.resolveHardwareUnits(args);
+
+        if (!this.isAttach) {
+
+            await this.loadImages(args);
+
+            // Halt after image download
+            await this.resetTarget(this.args.resetMode);
+            await this.sendCommands(args.postLoadCommands, 'post-load');
+        }
+
+        await this.gdb.sendEnablePrettyPrint();
+
+        await this.updateMainBreakpoint(args);
+
+        await this.sendCommands(args.initCommands, 'init');
+
+        const rtt = args.rtt === true ? {} : args.rtt;
+        if (rtt) {
+            try {
+                await this.startRtt(rtt, remote);
+            } catch (error) {
+                this.sendEvent(new OutputEvent(`Unable to start RTT: ${error.message}`));
+            }
+        }
+
+        if (args.swo) {
+            try {
+                await this.startSwo(args.swo);
+            } catch (error) {
+                this.sendEvent(new OutputEvent(`Unable to start SWO: ${error.message}`));
+            }
+        }
+
+        if (args.liveWatch) {
+            try {
+                await this.startLiveWatch(args.liveWatch);
+            } catch (error) {
+                this.sendEvent(new OutputEvent(`Unable to start live watch: ${error.message}`));
+            }
+        }
+
+        if (args.cores && args.cores.length > 0) {
+            await this.startCoreSessions(args, args.cores);
+        }
+
+        this.sendEvent(new InitializedEvent());
+    }
+
+    /**
+     * Restarts the program, keeping gdb and the gdb server running
+     */
+    private async restartSession(args: CmsisRequestArguments): Promise<void> {
+        await this.pauseTarget();
+        this.stopRtt();
+        this.haltedBeforeAttach = false;
+
+        // Only the settings used after connecting can change, gdb and the server keep theirs
+        const modified = await this.isProgramModified(args);
+        args.gdbArguments = this.args.gdbArguments;
+        this.args = args;
+
+        // Pick up a rebuilt program, gdb re-resolves its breakpoints against the new symbols
+        if (modified) {
+            this.sendEvent(new OutputEvent(`Reloading ${args.program}`));
+            await this.reloadSymbols(args);
+        }
+
+        if (!this.isAttach) {
+            await this.loadImages(args);
+        }
+        await this.resetTarget(this.args.resetMode);
+        if (!this.isAttach) {
+            await this.sendCommands(args.postLoadCommands, 'post-load');
+        }
+
+        await this.updateMainBreakpoint(args);
+
+        const rtt = args.rtt === true ? {} : args.rtt;
+        if (rtt && this.remote) {
+            try {
+                await this.startRtt(rtt, this.remote);
+            } catch (error) {
+                this.sendEvent(new OutputEvent(`Unable to start RTT: ${error.message}`));
+            }
+        }
+
+        await this.startTarget();
+    }
+
+    private async startTarget(): Promise<void> {
+        if (this.isAttach && (this.args.haltOnAttach || this.haltedBeforeAttach)) {
+            // Connecting halts the core, report where it was stopped and leave a core which was already halted
+            const result = await mi.sendThreadInfoRequest(this.gdb, {});
+            const threadId = result.threads.length ? parseInt(result.threads[0].id, 10) : 1;
+            this.sendStoppedEvent('entry', threadId, true);
+        } else {
+            await mi.sendExecContinue(this.gdb);
+        }
+    }
+
+    /**
+     * Servers halt the core when gdb connects, reporting SIGINT unless it was already halted, e.g. at a breakpoint
+     */
+    private async isHaltedBeforeConnect(): Promise<boolean> {
+        try {
+            const output = await this.sendConsoleCommand('info program');
+            const match = STOP_SIGNAL_REGEX.exec(output);
+            return !!match && match[1] !== 'SIGINT';
+        } catch (error) {
+            logger.warn(`Unable to determine the state of the target: ${error.message}`);
+            return false;
+        }
+    }
+
+    private async pauseTarget(): Promise<void> {
+        if (this.isRunning) {
             const waitPromise = new Promise(resolve => this.waitPaused = resolve);
             this.gdb.pause();
             await waitPromise;
         }
+    }
+
+    private async loadSymbols(args: CmsisRequestArguments): Promise<void> {
+        try {
+            this.securityImages = this.resolveSecurityImages(args);
+            const programImage = this.securityImages.find(image => image.file === args.program);
+            this.symbolTable = new SymbolTable(args.program, args.objdump, programImage ? programImage.secure : undefined);
+            await this.symbolTable.loadSymbols();
+            for (const image of this.securityImages.filter(item => item !== programImage)) {
+                await this.symbolTable.addSymbolFile(image.file, image.secure);
+            }
+            this.programTime = (await statAsync(args.program)).mtime.getTime();
+        } catch (error) {
+            this.sendEvent(new OutputEvent(`Unable to load debug symbols: ${error.message}`));
+        }
+    }
+
+    private async reloadSymbols(args: CmsisRequestArguments): Promise<void> {
+        await this.loadSymbols(args);
+        await this.gdb.sendFileExecAndSymbols(args.program);
+        for (const image of this.securityImages.filter(item => item.file !== args.program)) {
+            await mi.sendAddSymbolFile(this.gdb, image.file);
+        }
+        if (this.liveMemory) {
+            await this.liveMemory.loadSymbols(args.program);
+        }
+
+        // Everything derived from the symbols of the previous build
+        this.globalSymbols = undefined;
+        this.globalGroups = undefined;
+        for (const varobj of this.symbolVarobjs.values()) {
+            await mi.sendVarDelete(this.gdb, { varname: varobj.varname }).catch(() => undefined);
+        }
+        this.symbolVarobjs.clear();
+        this.memoryMap = new MemoryMap();
+        this.buildMemoryMap(args);
+        this.disassembler = new Disassembler(this.gdb, this.memoryMap, this.symbolTable);
+
+        // Watched expressions may have moved
+        if (this.liveWatch) {
+            const expressions = this.liveWatch.getWatches().map(watch => watch.expression);
+            this.liveWatch.stop();
+            this.liveWatch = undefined;
+            await this.startLiveWatch({ ...args.liveWatch, expressions });
+        }
+    }
+
+    private async isProgramModified(args: CmsisRequestArguments): Promise<boolean> {
+        if (args.program !== this.args.program) {
+            return true;
+        }
+
+        try {
+            return (await statAsync(args.program)).mtime.getTime() !== this.programTime;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    private async updateMainBreakpoint(args: CmsisRequestArguments): Promise<void> {
+        const runToMain = !this.isAttach && args.runToMain === true;
+        if (runToMain && !this.mainBreakpoint) {
+            const result = await mi.sendBreakFunctionInsert(this.gdb, 'main');
+            this.mainBreakpoint = result.bkpt.number;
+        } else if (!runToMain && this.mainBreakpoint) {
+            await mi.sendBreakDelete(this.gdb, { breakpoints: [this.mainBreakpoint] });
+            this.mainBreakpoint = undefined;
+        }
+    }
+
+    private handleConsoleOutput(output: string, category: string) {
+        // Output of commands entered in the REPL is their result
+        if (this.consoleCapture && category === 'stdout') {
+            this.consoleCapture.push(output);
+        } else {
+            this.sendEvent(new OutputEvent(output, category));
+        }
+    }
+
+    private async sendConsoleCommand(command: string): Promise<string> {
+        // MI commands have a result record instead of console output
+        if (command.startsWith('-')) {
+            const result = await mi.sendUserInput(this.gdb, command);
+            return result !== undefined ? JSON.stringify(result) : '';
+        }
+
+        const output: string[] = [];
+        this.consoleCapture = output;
+        try {
+            await mi.sendUserInput(this.gdb, command);
+        } finally {
+            this.consoleCapture = undefined;
+        }
+
+        return output.join('').replace(/\n$/, '');
+    }
+
+    private async executeReplCommand(input: ReplInput): Promise<string> {
+        switch (input.name) {
+            case 'help':
+                return formatHelp();
+
+            case 'mem': {
+                if (!input.args[0]) {
+                    throw new Error(`Usage: ${REPL_PREFIX}mem <address> [length]`);
+                }
+                const address = await this.resolveMemoryReference(input.args[0]);
+                const length = input.args[1] ? parseInteger(input.args[1]) : DEFAULT_MEMORY_LENGTH;
+                if (length === undefined || length <= 0) {
+                    throw new Error(`Invalid length '${input.args[1]}'`);
+                }
+                return formatHexDump(address, await this.readMemory(address, length));
+            }
+
+            case 'regs':
+                return formatRegisters(await this.getRegisterValues());
+
+            case 'symbols': {
+                if (!input.args[0]) {
+                    throw new Error(`Usage: ${REPL_PREFIX}symbols <pattern>`);
+                }
+                if (!this.symbolTable) {
+                    throw new Error('No debug symbols loaded');
+                }
+                const symbols = this.symbolTable.findSymbols(globToRegExp(input.args[0]));
+                const more = symbols.length > MAX_SYMBOLS ? `\n... ${symbols.length - MAX_SYMBOLS} more` : '';
+                return symbols.length ? `${formatSymbols(symbols.slice(0, MAX_SYMBOLS))}${more}` : 'No matching symbols';
+            }
+
+            case 'reset': {
+                const mode = input.args[0];
+                if (mode && RESET_MODES.indexOf(mode) === -1) {
+                    throw new Error(`Unknown reset mode '${mode}', expected one of ${RESET_MODES.join(', ')}`);
+                }
+                await this.resetSession(mode as ResetMode | undefined);
+                return '';
+            }
+
+            case 'load':
+                await this.loadSession(input.args[0]);
+                return '';
+
+            default:
+                throw new Error(`Unknown command '${REPL_PREFIX}${input.name}', enter ${REPL_PREFIX}help for a list of commands`);
+        }
+    }
+
+    /**
+     * Loads the program, or another image, mid-session and resets the target to run it
+     */
+    private async loadSession(file?: string): Promise<void> {
+        await this.pauseTarget();
+
+        if (file) {
+            const image = new FlashImage(file);
+            await image.load();
+            await this.downloadImage(image, false);
+        } else {
+            // Loading on request ignores the load mode of the launch
+            await this.loadImages({ ...this.args, loadMode: 'download' });
+        }
+
+        await this.resetSession();
+    }
+
+    private async getCompletions(text: string): Promise<DebugProtocol.CompletionItem[]> {
+        // The word being completed is replaced by the completion
+        const wordStart = text.search(/\S*$/);
+        const word = text.substring(wordStart);
+        const replace = (label: string, start: number, type: DebugProtocol.CompletionItemType) => ({
+            label,
+            start: this.convertDebuggerColumnToClient(start + 1),
+            length: text.length - start,
+            type
+        });
+
+        if (text.startsWith('>')) {
+            return [];
+        }
+
+        const replInput = parseReplInput(text);
+        if (replInput && wordStart === text.indexOf(REPL_PREFIX)) {
+            return REPL_COMMANDS
+                .filter(command => command.name.startsWith(replInput.name))
+                .map(command => replace(`${REPL_PREFIX}${command.name}`, wordStart, 'function'));
+        }
+
+        const symbols = this.getSymbolCompletions(word).map(name => replace(name, wordStart, 'variable'));
+        if (replInput) {
+            return SYMBOL_COMMANDS.indexOf(replInput.name) !== -1 ? symbols : [];
+        }
+
+        // gdb completes whole lines of its commands, older versions don't support completion
+        let matches: string[] = [];
+        try {
+            const result = await mi.sendComplete(this.gdb, text);
+            matches = result.matches || [];
+        } catch (error) {
+            logger.warn(`Unable to complete '${text}': ${error.message}`);
+        }
+
+        const lines = matches.slice(0, MAX_COMPLETIONS).map(match => replace(match, 0, 'text'));
+        const names = lines.map(line => line.label.substring(wordStart));
+        return [...lines, ...symbols.filter(symbol => names.indexOf(symbol.label) === -1)];
+    }
+
+    private getSymbolCompletions(prefix: string): string[] {
+        if (!prefix || !this.symbolTable) {
+            return [];
+        }
+
+        const names = this.symbolTable.findSymbols(globToRegExp(`${prefix}*`)).map(symbol => symbol.name);
+        return names.filter((name, index) => names.indexOf(name) === index).slice(0, MAX_COMPLETIONS);
+    }
+
+    private async startCoreSessions(args: CmsisRequestArguments, cores: CoreConfiguration[]): Promise<void> {
+        if (!this.supportsStartDebugging) {
+            this.sendEvent(new OutputEvent('The client cannot start sessions for further cores'));
+            return;
+        }
+
+        const coreGroup = new CoreGroup(args.gdbCore || 0);
+        const port = await coreGroup.host();
+        this.listenCoreGroup(coreGroup);
+
+        for (const core of cores) {
+            const corePort = this.gdbServer ? this.gdbServer.resolveCorePort(core.core) : undefined;
+            if (!corePort) {
+                this.sendEvent(new OutputEvent(`The gdb server cannot debug core ${core.core}`));
+                continue;
+            }
+
+            const configuration: Partial<CmsisRequestArguments> = {};
+            CORE_ARGUMENTS.forEach(<K extends keyof CmsisRequestArguments>(name: K) => configuration[name] = args[name]);
+            Object.assign(configuration, core, {
+                type: DEBUG_TYPE,
+                request: 'attach',
+                name: core.name || `Core ${core.core}`,
+                gdbCore: core.core,
+                gdbTarget: `localhost:${corePort}`,
+                coreGroup: { port, core: core.core }
+            });
+
+            this.sendRequest('startDebugging', { configuration, request: 'attach' }, START_DEBUGGING_TIMEOUT, response => {
+                if (!response.success) {
+                    this.sendEvent(new OutputEvent(`Unable to start debugging core ${core.core}: ${response.message}`));
+                }
+            });
+        }
+    }
+
+    private async joinCoreGroup(args: CoreGroupArguments): Promise<void> {
+        const coreGroup = new CoreGroup(args.core);
+        try {
+            await coreGroup.join(args.port);
+            this.listenCoreGroup(coreGroup);
+        } catch (error) {
+            this.sendEvent(new OutputEvent(`Unable to coordinate with the other cores: ${error.message}`));
+        }
+    }
+
+    private listenCoreGroup(coreGroup: CoreGroup) {
+        this.coreGroup = coreGroup;
+        coreGroup.on('terminate', () => this.sendEvent(new TerminatedEvent()));
+
+        if (this.args.haltAllCores === false) {
+            return;
+        }
+
+        coreGroup.on('halt', () => {
+            if (this.isRunning) {
+                this.coreHaltPending = true;
+                mi.sendExecInterrupt(this.gdb).catch(error => logger.warn(`Unable to halt core: ${error.message}`));
+            }
+        });
+        coreGroup.on('resume', () => {
+            if (!this.isRunning) {
+                mi.sendExecContinue(this.gdb)
+                    .then(() => this.sendEvent(new ContinuedEvent(this.threads.length ? this.threads[0].id : 1, true)))
+                    .catch(error => logger.warn(`Unable to resume core: ${error.message}`));
+            }
+        });
+    }
+
+    private async loadImages(args: CmsisRequestArguments): Promise<void> {
+        const loadMode = args.loadMode || 'download';
+        if (loadMode === 'skip') {
+            this.sendEvent(new OutputEvent(`Image loading skipped: ${args.program}`));
+            return;
+        }
+
+        const additionalImages: ImageArguments[] = [
+            ...this.securityImages.filter(image => image.file !== args.program).map(image => ({ file: image.file })),
+            ...(args.additionalImages || [])
+        ];
+        const images = [
+            new FlashImage(args.program),
+            ...additionalImages
+                .filter((image, index) => additionalImages.findIndex(item => item.file === image.file) === index)
+                .map(image => new FlashImage(image.file, typeof image.address === 'number' ? image.address : parseInteger(image.address)))
+        ];
+        for (const image of images) {
+            await image.load();
+        }
+
+        if (loadMode === 'verify') {
+            for (const image of images) {
+                await this.verifyImage(image);
+            }
+            return;
+        }
+
+        const cache = new ImageCache();
+        await cache.load();
+        const target = this.getImageTarget(args);
+
+        const setHash = (image: FlashImage, hash: string | undefined) => {
+            if (target) {
+                cache.set(target, image.file, hash);
+            }
+        };
+
+        let pending = images;
+        if (loadMode === 'ifChanged' && !target) {
+            this.sendEvent(new OutputEvent('Unable to identify the debug probe, loading all images. Select the probe by serial number in gdbServerArguments'));
+        } else if (loadMode === 'ifChanged' && target) {
+            pending = images.filter(image => cache.get(target, image.file) !== image.getHash());
+            images.filter(image => pending.indexOf(image) === -1)
+                .forEach(image => this.sendEvent(new OutputEvent(`Image unchanged: ${image.file}`)));
+            // A chip erase also removes the unchanged images
+            if (pending.length > 0 && args.chipErase) {
+                pending = images;
+            }
+        }
+
+        if (pending.length > 0 && args.chipErase) {
+            const commands = this.gdbServer ? this.gdbServer.resolveChipEraseCommands() : undefined;
+            if (commands) {
+                // Every image on the target is gone until loaded again
+                images.forEach(image => setHash(image, undefined));
+                await cache.save().catch(() => undefined);
+
+                const progress = this.startProgress('Erasing Flash');
+                try {
+                    for (const command of commands) {
+                        await mi.sendMonitorCommand(this.gdb, command);
+                    }
+                } finally {
+                    progress.end();
+                }
+            } else {
+                this.sendEvent(new OutputEvent('The gdb server does not support chip erase, erasing only the sectors written'));
+            }
+        }
+
+        try {
+            for (const image of pending) {
+                // A partial or cancelled download leaves the image unknown
+                setHash(image, undefined);
+                await this.downloadImage(image, image === images[0]);
+                setHash(image, image.getHash());
+            }
+        } finally {
+            try {
+                await cache.save();
+            } catch (error) {
+                logger.warn(`Unable to save image cache: ${error.message}`);
+            }
+        }
+    }
+
+    private async downloadImage(image: FlashImage, isProgram: boolean): Promise<void> {
+        // Interrupting gdb aborts a running download, interrupting the target would not
+        const progress = this.startProgress(`Loading ${basename(image.file)}`, () => (this.gdb as CmsisBackend).interrupt());
+
+        // Prefer the progress of the server writing flash to gdb sending data to it
+        let serverProgress = false;
+        const serverListener = (percent: number) => {
+            serverProgress = true;
+            progress.update(percent);
+        };
+        const gdbListener = (statusClass: string, data: any) => {
+            const status = statusClass === 'download' && !serverProgress ? parseDownloadStatus(data) : undefined;
+            if (status) {
+                progress.update(status.percent, status.section);
+            }
+        };
+        if (this.gdbServer) {
+            this.gdbServer.on('progress', serverListener);
+        }
+        this.gdb.on('statusAsync', gdbListener);
+
+        try {
+            if (isProgram) {
+                await mi.sendTargetDownload(this.gdb);
+            } else if (image.format === 'bin') {
+                // gdb only detects ELF and HEX files
+                await this.gdb.sendGDBSet('gnutarget binary');
+                try {
+                    await mi.sendLoad(this.gdb, image.file, image.address);
+                } finally {
+                    await this.gdb.sendGDBSet('gnutarget auto');
+                }
+            } else {
+                await mi.sendLoad(this.gdb, image.file, image.address);
+            }
+        } catch (error) {
+            throw progress.cancelled ? new Error(`Loading ${image.file} was cancelled`) : error;
+        } finally {
+            if (this.gdbServer) {
+                this.gdbServer.off('progress', serverListener);
+            }
+            this.gdb.off('statusAsync', gdbListener);
+            progress.end();
+        }
+
+        // gdb may have finished the download before the interrupt arrived
+        if (progress.cancelled) {
+            throw new Error(`Loading ${image.file} was cancelled`);
+        }
+        this.sendEvent(new OutputEvent(`Image loaded: ${image.file}`));
+    }
+
+    private async verifyImage(image: FlashImage): Promise<void> {
+        const progress = this.startProgress(`Verifying ${basename(image.file)}`, () => undefined);
+        let mismatch: number | undefined;
+        try {
+            mismatch = await image.verify((address, length) => {
+                if (progress.cancelled) {
+                    throw new Error(`Verifying ${image.file} was cancelled`);
+                }
+                return this.readMemory(address, length);
+            }, percent => progress.update(percent));
+        } finally {
+            progress.end();
+        }
+
+        if (mismatch !== undefined) {
+            throw new Error(`Image ${image.file} differs from target memory at ${toHex(mismatch)}`);
+        }
+        this.sendEvent(new OutputEvent(`Image verified: ${image.file}`));
+    }
+
+    private getImageTarget(args: CmsisRequestArguments): string | undefined {
+        // Boards of the same type only differ by the probe connected to them
+        const serial = this.gdbServer ? this.gdbServer.resolveProbeSerial() : undefined;
+        if (!serial) {
+            return undefined;
+        }
+
+        return JSON.stringify([
+            args.gdbServerType,
+            serial,
+            this.device ? this.device.name : args.deviceName,
+            args.gdbCore || 0
+        ]);
+    }
+
+    private async whilePaused<T>(action: () => Promise<T>): Promise<T> {
+        // Breakpoints can only be changed while the target is halted
+        const neededPause = this.isRunning;
+        await this.pauseTarget();
+
+        try {
+            return await action();
+        } finally {
+            if (neededPause) {
+                mi.sendExecContinue(this.gdb).catch(error => logger.warn(`Unable to resume target: ${error.message}`));
+            }
+        }
+    }
+
+    private async resolveHardwareUnits(args: CmsisRequestArguments): Promise<void> {
+        try {
+            this.hardwareUnits = await detectHardwareUnits(this.targetMemory);
+        } catch (error) {
+            this.sendEvent(new OutputEvent(`Unable to detect hardware breakpoint units: ${error.message}`));
+        }
+
+        if (args.breakpointUnits !== undefined) {
+            this.hardwareUnits.breakpoints = args.breakpointUnits;
+        }
+        if (args.watchpointUnits !== undefined) {
+            this.hardwareUnits.watchpoints = args.watchpointUnits;
+        }
+
+        // Have gdb refuse hardware breakpoints it can't place when inserting them, rather than failing on resume
+        if (this.hardwareUnits.breakpoints !== undefined) {
+            await this.gdb.sendGDBSet(`remote hardware-breakpoint-limit ${this.hardwareUnits.breakpoints}`);
+        }
+        if (this.hardwareUnits.watchpoints !== undefined) {
+            await this.gdb.sendGDBSet(`remote hardware-watchpoint-limit ${this.hardwareUnits.watchpoints}`);
+        }
+
+        if (args.hardwareBreakpoints) {
+            (this.gdb as CmsisBackend).preferHardwareBreakpoint = () => this.hasFreeHardwareUnit('breakpoints');
+        }
+    }
+
+    private async hasFreeHardwareUnit(type: keyof HardwareUnits): Promise<boolean> {
+        const available = this.hardwareUnits[type];
+        if (available === undefined) {
+            return true;
+        }
+
+        const usage = await getHardwareUsage(this.gdb);
+        return usage[type] < available;
+    }
+
+    private async useHardwareBreakpoint(address: number): Promise<boolean> {
+        // Code in read-only memory can't be patched with a breakpoint instruction
+        const region = this.memoryMap.findRegion(address);
+        const readOnly = !!region && !region.writable;
+        if (!readOnly && !this.args.hardwareBreakpoints) {
+            return false;
+        }
+
+        if (await this.hasFreeHardwareUnit('breakpoints')) {
+            return true;
+        }
+
+        if (readOnly) {
+            throw new Error(`Unable to break at ${toHex(address)} in read-only memory, all ${this.hardwareUnits.breakpoints} hardware breakpoint units are in use`);
+        }
+
+        return false;
+    }
+
+    private async setBreakpointOptions(breakpoint: string, condition?: string, hitCondition?: string): Promise<void> {
+        if (condition) {
+            await mi.sendBreakCondition(this.gdb, breakpoint, condition);
+        }
+
+        if (hitCondition) {
+            const count = parseInt(hitCondition.replace(/\s|>|=/g, ''), 10);
+            if (isNaN(count)) {
+                throw new Error(`Unable to decode expression: ${hitCondition}`);
+            }
+
+            // Stop on the given hit, or only after it for greater than conditions
+            const after = /^\s*>(?!=)/.test(hitCondition);
+            await mi.sendBreakAfter(this.gdb, breakpoint, after ? count : count - 1);
+        }
+    }
+
+    private async stepInstruction(response: DebugProtocol.Response,
+                                  step: (gdb: GDBBackend, threadId?: number) => Promise<unknown>, threadId: number): Promise<void> {
+        try {
+            await step(this.gdb, this.resolveThreadId(threadId));
+            this.sendResponse(response);
+        } catch (err) {
+            this.sendErrorResponse(response, 1, err.message);
+        }
+    }
+
+    private buildMemoryMap(args: CmsisRequestArguments) {
+        for (const region of args.memoryRegions || []) {
+            const start = typeof region.start === 'number' ? region.start : parseInteger(region.start);
+            const size = typeof region.size === 'number' ? region.size : parseInteger(region.size);
+            if (start === undefined || size === undefined) {
+                this.sendEvent(new OutputEvent(`Ignoring memory region with invalid start '${region.start}' or size '${region.size}'`));
+                continue;
+            }
+
+            this.memoryMap.addRegion({
+                name: region.name || toHex(start),
+                start,
+                size,
+                writable: (region.access || 'rw').indexOf('w') !== -1
+            });
+        }
+
+        if (this.device) {
+            this.memoryMap.addMemories(this.device.memories);
+        }
+        if (this.svdFile) {
+            this.memoryMap.addPeripherals(this.svdFile.getPeripherals());
+        }
+        if (this.symbolTable) {
+            this.memoryMap.addSections(this.symbolTable.getSections());
+        }
+
+        // System registers are always present, but shouldn't restrict an otherwise unknown address space
+        if (!this.memoryMap.isEmpty) {
+            this.memoryMap.addSystemRegion();
+        }
+    }
+
+    private async resolveMemoryReference(memoryReference: string): Promise<number> {
+        const address = parseInteger(memoryReference);
+        if (address !== undefined) {
+            return address;
+        }
+
+        const result = await mi.sendDataEvaluateExpression(this.gdb, `(unsigned long long)(${memoryReference})`);
+        const value = parseInt(result.value || '', 10);
+        if (isNaN(value)) {
+            throw new Error(`Unable to resolve memory reference '${memoryReference}'`);
+        }
+
+        return value;
+    }
+
+    private async getExpressionAddress(expression: string, threadId?: number, frameId?: number): Promise<number | undefined> {
+        try {
+            const result = await mi.sendDataEvaluateExpressionInFrame(this.gdb, `(unsigned long long)&(${expression})`, threadId, frameId);
+            const value = parseInt(result.value || '', 10);
+            return isNaN(value) ? undefined : value;
+        } catch (error) {
+            // Values in registers and other expressions without an address have no memory reference
+            return undefined;
+        }
+    }
+
+    private async addMemoryReferences(variables: DebugProtocol.Variable[], frameHandle: number): Promise<void> {
+        const frame = this.frameHandles.get(frameHandle);
+        if (!frame || this.isTaskThread(frame.threadId)) {
+            return;
+        }
+
+        for (const variable of variables) {
+            const address = await this.getExpressionAddress(variable.evaluateName || variable.name, frame.threadId, frame.frameId);
+            if (address !== undefined) {
+                variable.memoryReference = toHex(address);
+            }
+        }
+    }
+
+    private resolveRtos(args: CmsisRequestArguments): AbstractRtos | undefined {
+        const type = args.rtos || 'auto';
+        if (type === 'none' || type === 'gdbserver') {
+            return undefined;
+        }
+
+        const detected = type === 'auto' ? (this.symbolTable && detectRtos(this.symbolTable)) : type;
+        if (!detected) {
+            return undefined;
+        }
+
+        const rtos = createRtos(detected, this.gdb);
+        this.sendEvent(new OutputEvent(`Using ${rtos.name} task awareness`));
+        return rtos;
+    }
+
+    private isTaskThread(threadId: number): boolean {
+        const task = this.rtosTasks.get(threadId);
+        return !!task && !task.current;
+    }
+
+    private resolveThreadId(threadId: number): number {
+        // Execution control on a task which isn't running applies to the hardware thread
+        if (this.isTaskThread(threadId)) {
+            for (const [id, task] of this.rtosTasks) {
+                if (task.current) {
+                    return id;
+                }
+            }
+        }
+
+        return threadId;
+    }
+
+    private async getTaskContext(threadId: number): Promise<TaskContext> {
+        let context = this.taskContexts.get(threadId);
+        const task = this.rtosTasks.get(threadId);
+
+        if (!context && task && this.rtos) {
+            context = await this.rtos.getTaskContext(task);
+            this.taskContexts.set(threadId, context);
+        }
+
+        return context || new Map();
+    }
+
+    private async getTaskStackFrames(threadId: number): Promise<DebugProtocol.StackFrame[]> {
+        const context = await this.getTaskContext(threadId);
+        const pc = context.get('pc');
+        const lr = context.get('lr');
+        const frames: DebugProtocol.StackFrame[] = [];
+
+        if (pc !== undefined) {
+            frames.push(await this.createTaskStackFrame(threadId, 0, pc, pc));
+        }
+
+        // Only the caller can be recovered from the saved context, look up the call rather than the return address
+        if (lr !== undefined && lr !== 0 && !isExcReturn(lr)) {
+            frames.push(await this.createTaskStackFrame(threadId, 1, lr, (lr & ~1) - 2));
+        }
+
+        return frames;
+    }
+
+    private resolveSecurityImages(args: CmsisRequestArguments): SecurityImage[] {
+        const images: SecurityImage[] = [];
+        if (args.secureProgram) {
+            images.push({ file: args.secureProgram, secure: true });
+        }
+        if (args.nonSecureProgram) {
+            images.push({ file: args.nonSecureProgram, secure: false });
+        }
+
+        // The program belongs to the world not configured otherwise
+        if (images.length === 1 && images[0].file !== args.program) {
+            images.push({ file: args.program, secure: !images[0].secure });
+        }
+
+        return images;
+    }
+
+    private async getSecurityStackFrames(threadId: number): Promise<DebugProtocol.StackFrame[]> {
+        const result = await mi.sendStackListFramesRequest(this.gdb, { lowFrame: 0, highFrame: MAX_STACK_DEPTH - 1, threadId });
+        const frames: DebugProtocol.StackFrame[] = [];
+
+        for (let index = 0; index < result.stack.length; index++) {
+            const frame = result.stack[index];
+            const address = parseInt(frame.addr || '', 16);
+            const next = result.stack[index + 1];
+            const nextAddress = next ? parseInt(next.addr || '', 16) : NaN;
+
+            // gdb can't always unwind into secure code, recover the caller from the secure stack instead
+            const isTransition = isFncReturn(address) || (isExcReturn(address) && isSecureExcReturn(address));
+            if (isTransition && (isNaN(nextAddress) || getSecurityState(this.symbolTable, nextAddress) !== 'secure')) {
+                const caller = await this.getSecureCaller(threadId, address);
+                if (caller !== undefined) {
+                    // A call returns after the calling instruction, an exception to the interrupted one
+                    const lookup = isFncReturn(address) ? (caller & ~1) - 2 : caller;
+                    frames.push(await this.createTaskStackFrame(threadId, index, caller, lookup));
+                    break;
+                }
+            }
+
+            frames.push(this.createStackFrame(threadId, frame));
+        }
+
+        for (const frame of frames) {
+            const state = frame.instructionPointerReference
+                ? getSecurityState(this.symbolTable, parseInt(frame.instructionPointerReference, 16))
+                : undefined;
+            if (state) {
+                frame.name = `${frame.name} [${formatSecurityState(state)}]`;
+            }
+        }
+
+        return frames;
+    }
+
+    private async getSecureCaller(threadId: number, returnValue: number): Promise<number | undefined> {
+        const registers = await this.getRegisterValues(threadId, 0);
+
+        if (isFncReturn(returnValue)) {
+            // Calls to non-secure code push the return address on the secure stack in use, assume the main stack without CONTROL_S
+            const control = registers.get('control_s');
+            const xpsr = registers.get('xpsr');
+            const threadMode = xpsr !== undefined && getExceptionNumber(xpsr) === 0;
+            const stack = registers.get(threadMode && control !== undefined && (control & 2) ? 'psp_s' : 'msp_s');
+            return stack !== undefined ? (await this.readMemory(stack, 4)).readUInt32LE(0) : undefined;
+        }
+
+        const sp = registers.get(`${getExcReturnStack(returnValue)}_s`);
+        if (sp === undefined) {
+            return undefined;
+        }
+
+        const data = await this.readMemory(sp + getExceptionFrameOffset(returnValue), EXCEPTION_FRAME_SIZE);
+        return parseExceptionFrame(data).pc;
+    }
+
+    private createStackFrame(threadId: number, frame: mi.MIFrameInfo): DebugProtocol.StackFrame {
+        const source = frame.fullname ? new Source(basename(frame.file || frame.fullname), frame.fullname) : undefined;
+        const frameHandle = this.frameHandles.create({ threadId, frameId: parseInt(frame.level, 10) });
+        const stackFrame = new StackFrame(frameHandle, frame.func || frame.fullname || '', source,
+            frame.line ? parseInt(frame.line, 10) : undefined) as DebugProtocol.StackFrame;
+        stackFrame.instructionPointerReference = frame.addr;
+        return stackFrame;
+    }
+
+    private async createTaskStackFrame(threadId: number, frameId: number, address: number, lookup: number): Promise<DebugProtocol.StackFrame> {
+        const symbol = this.symbolTable && this.symbolTable.getFunctionAt(lookup);
+        let name = symbol ? symbol.name : toHex(address & ~1);
+        let source: Source | undefined;
+        let line: number | undefined;
+
+        try {
+            const result = await mi.sendDataDisassemble(this.gdb, toHex(lookup & ~1), toHex((lookup & ~1) + 2));
+            const lineInfo = result.asm_insns[0];
+            if (lineInfo && lineInfo.fullname) {
+                source = new Source(basename(lineInfo.file || lineInfo.fullname), lineInfo.fullname);
+                line = parseInt(lineInfo.line, 10);
+            }
+            if (!symbol && lineInfo && lineInfo.line_asm_insn.length && lineInfo.line_asm_insn[0]['func-name']) {
+                name = lineInfo.line_asm_insn[0]['func-name'];
+            }
+        } catch (error) {
+            // Leave the frame without source, the address may not be covered by debug information
+        }
+
+        const frameHandle = this.frameHandles.create({ threadId, frameId });
+        const frame = new StackFrame(frameHandle, name, source, line) as DebugProtocol.StackFrame;
+        frame.instructionPointerReference = toHex(address & ~1);
+        return frame;
+    }
+
+    private async startRtt(config: RttConfiguration, remote: string): Promise<void> {
+        const location = config.address || RTT_SYMBOL;
+        let address = parseInteger(location);
+        if (address === undefined) {
+            const symbol = this.symbolTable && this.symbolTable.getSymbol(location);
+            if (!symbol) {
+                throw new Error(`Unable to find RTT control block '${location}'`);
+            }
+            address = symbol.address;
+        }
+
+        const channels = config.channels || [0];
+        const source = config.source || 'auto';
+
+        if (source !== 'adapter' && this.gdbServer) {
+            this.rttServer = await this.gdbServer.resolveRttChannels(address, config.searchSize || 0, channels);
+            if (this.rttServer) {
+                // The control block may not be initialised yet, starting is retried when the target stops
+                await this.startServerRtt().catch(error => logger.warn(`Unable to start RTT: ${error.message}`));
+                return;
+            }
+        }
+
+        if (source === 'server') {
+            throw new Error('The gdb server does not serve RTT');
+        }
+
+        // Poll through a second connection so output arrives while the core runs, otherwise only when it halts
+        let memory = this.targetMemory;
+
+        try {
+            memory = await this.connectLiveMemory(remote);
+        } catch (error) {
+            this.sendEvent(new OutputEvent(`RTT is only read when the target halts, unable to connect for background reads: ${error.message}`));
+        }
+
+        this.rttPoller = new RttPoller(memory, address, config.searchSize, channels);
+        this.rttPoller.on('data', (channel: number, text: string) => this.sendRttOutput(channel, text));
+        this.rttPoller.on('error', error => logger.warn(`Unable to read RTT: ${error.message}`));
+        if (this.liveMemory) {
+            this.rttPoller.start(config.pollInterval);
+        }
+    }
+
+    private async connectLiveMemory(remote: string): Promise<LiveMemory> {
+        if (!this.liveMemory) {
+            // Only servers started by the adapter are known to refuse the connection
+            if (this.gdbServer && !this.gdbServer.supportsSecondConnection()) {
+                throw new Error('The gdb server does not accept a second connection to read memory while the target runs');
+            }
+
+            const liveMemory = new LiveMemory();
+            await liveMemory.connect(this.args.gdb, this.args.program, remote);
+            this.liveMemory = liveMemory;
+        }
+
+        return this.liveMemory;
+    }
+
+    private async startLiveWatch(config: LiveWatchConfiguration): Promise<LiveWatch> {
+        if (!this.liveWatch) {
+            if (!this.remote) {
+                throw new Error('Not connected to a gdb server');
+            }
+
+            // Sampling needs memory access while the core runs
+            const liveMemory = await this.connectLiveMemory(this.remote);
+            const liveWatch = new LiveWatch(liveMemory);
+            liveWatch.on('change', (watches: LiveWatchExpression[]) => this.sendEvent(new Event('liveWatch', {
+                values: watches.map(watch => ({ expression: watch.expression, value: watch.value }))
+            })));
+            liveWatch.on('error', error => logger.warn(`Unable to sample live watch: ${error.message}`));
+            liveWatch.start(config.interval);
+            this.liveWatch = liveWatch;
+        } else if (config.interval) {
+            this.liveWatch.start(config.interval);
+        }
+
+        for (const expression of config.expressions || []) {
+            await this.addLiveWatch(expression);
+        }
+
+        return this.liveWatch;
+    }
+
+    private async addLiveWatch(expression: string): Promise<void> {
+        if (!this.liveWatch || !this.liveMemory) {
+            return;
+        }
+
+        try {
+            const liveMemory = this.liveMemory;
+            this.liveWatch.add(await resolveLiveWatch(expression, text => liveMemory.evaluate(text)));
+        } catch (error) {
+            this.sendEvent(new OutputEvent(`Unable to watch '${expression}': ${error.message}`));
+        }
+    }
+
+    private async startServerRtt(): Promise<void> {
+        if (!this.rttServer) {
+            return;
+        }
+
+        for (const command of this.rttServer.commands) {
+            await mi.sendMonitorCommand(this.gdb, command);
+        }
+
+        this.rttServer.ports.forEach((port, channel) => {
+            const socket = connect(port, 'localhost');
+            socket.setEncoding('utf8');
+            socket.on('data', data => this.sendRttOutput(channel, data.toString()));
+            socket.on('error', error => logger.warn(`RTT channel ${channel} closed: ${error.message}`));
+            this.rttSockets.set(channel, socket);
+        });
+    }
+
+    private isRttEnabled(): boolean {
+        return !!this.rttPoller || !!this.rttServer;
+    }
+
+    private async writeRtt(text: string): Promise<void> {
+        const socket = this.rttSockets.get(0);
+        if (socket) {
+            socket.write(text);
+            return;
+        }
+
+        if (!this.rttPoller) {
+            throw new Error('RTT channel 0 is not available');
+        }
+
+        const data = Buffer.from(text, 'utf8');
+        const written = await this.rttPoller.write(data);
+        if (written < data.length) {
+            this.sendEvent(new OutputEvent(`RTT down-buffer full, ${data.length - written} bytes dropped`, 'stderr'));
+        }
+    }
+
+    private sendRttOutput(channel: number, text: string) {
+        this.sendEvent(new OutputEvent(text, channel === 0 ? 'stdout' : `rtt${channel}`));
+    }
+
+    private stopRtt() {
+        if (this.rttPoller) {
+            this.rttPoller.stop();
+            this.rttPoller = undefined;
+        }
+
+        this.rttSockets.forEach(socket => socket.destroy());
+        this.rttSockets.clear();
+        this.rttServer = undefined;
+    }
+
+    private async startSwo(config: SwoConfiguration): Promise<void> {
+        const source = config.source || 'server';
+        let open: () => Readable;
+
+        if (source === 'file') {
+            const path = config.path;
+            if (!path) {
+                throw new Error('No SWO file specified');
+            }
+            open = () => createReadStream(path);
+        } else if (source === 'socket') {
+            const [host, port] = (config.path || '').split(':');
+            if (!host || !parseInt(port, 10)) {
+                throw new Error(`Invalid SWO socket '${config.path}', expected host:port`);
+            }
+            open = () => connect(parseInt(port, 10), host);
+        } else {
+            const server = this.gdbServer && await this.gdbServer.resolveSwoSource(config);
+            if (!server) {
+                throw new Error('The gdb server does not capture SWO');
+            }
+            for (const command of server.commands) {
+                await mi.sendMonitorCommand(this.gdb, command);
+            }
+            open = () => connect(server.port, 'localhost');
+        }
+
+        await configureSwo(this.targetMemory, config);
+
+        // Open the stream last, the reader handles its errors from the start
+        this.swoReader = new SwoReader();
+        this.swoReader.on('data', (port: number, text: string) => this.sendEvent(new OutputEvent(text, port === 0 ? 'stdout' : `itm${port}`)));
+        this.swoReader.on('overflow', () => logger.warn('SWO overflow, trace data was lost'));
+        this.swoReader.on('error', error => this.sendEvent(new OutputEvent(`SWO stopped: ${error.message}`)));
+        this.swoStream = open();
+        this.swoReader.read(this.swoStream);
+    }
+
+    private async sendCommands(commands: string[] | undefined, stage: string): Promise<void> {
+        if (!commands) {
+            return;
+        }
+
+        for (const command of commands) {
+            try {
+                await mi.sendUserInput(this.gdb, command);
+            } catch (error) {
+                const message = `Error running ${stage} command '${command}': ${error.message}`;
+                if (this.args.abortOnCommandError) {
+                    throw new Error(message);
+                }
+                this.sendEvent(new OutputEvent(message, 'stderr'));
+            }
+        }
+    }
+
+    private async startServer(args: CmsisRequestArguments): Promise<string> {
+        // Determine free port for gdb server
+        this.portScanner = new PortScanner(args.portRange);
+        const serverPort = await this.portScanner.findFreePort();
+        if (!serverPort) {
+            throw new Error('Unable to find a free port to use for debugging');
+        }
+        this.sendEvent(new OutputEvent(`Selected port ${serverPort} for debugging`));
+        this.serverPort = serverPort;
+
+        // gdb server has main info channel on stderr
+        this.gdbServer = createServer(args, this.device);
+        this.gdbServer.on('stderr', data => this.sendEvent(new OutputEvent(data, 'stdout')));
+        this.gdbServer.on('error', message => this.handleServerError(message));
+
+        await this.gdbServer.spawn(serverPort);
+
+        // Find correct debug client port
+        const clientPort = this.gdbServer.resolveGdbPort(serverPort);
+
+        // Make sure the server really listens before gdb connects
+        await this.portScanner.waitForPort(clientPort, LISTEN_TIMEOUT);
+        return `localhost:${clientPort}`;
+    }
+
+    private handleServerError(message: string) {
+        if (this.stopping || this.serverRestarting) {
+            return;
+        }
+
+        // The server output usually explains the failure, e.g. the probe being unplugged
+        const output = this.gdbServer ? this.gdbServer.recentOutput : [];
+        this.sendEvent(new OutputEvent(`${[message, ...output].join('\n')}\n`, 'stderr'));
+
+        const config = this.args.gdbServerRestart === true ? {} : this.args.gdbServerRestart;
+        if (config && this.remote) {
+            this.restartServer(config).catch(error => {
+                this.sendEvent(new OutputEvent(`Unable to restart gdb server: ${error.message}`, 'stderr'));
+                this.sendEvent(new TerminatedEvent());
+            });
+        } else {
+            this.sendEvent(new TerminatedEvent());
+        }
+    }
+
+    private async restartServer(config: ServerRestartConfiguration): Promise<void> {
+        const gdbServer = this.gdbServer;
+        const remote = this.remote;
+        if (!gdbServer || !remote) {
+            throw new Error('No gdb server to restart');
+        }
+
+        this.serverRestarting = true;
+        this.sendEvent(new OutputEvent('Waiting for the debug probe to be reconnected'));
+        const progress = this.startProgress('Restarting Debugger');
+        const end = Date.now() + (config.timeout || RESTART_TIMEOUT);
+        let lastError: Error | undefined;
+
+        try {
+            // Keep trying as the server fails to start until the probe is plugged in again
+            while (!this.stopping && Date.now() < end) {
+                try {
+                    await gdbServer.kill();
+                    await gdbServer.spawn(this.serverPort);
+                    await this.portScanner.waitForPort(gdbServer.resolveGdbPort(this.serverPort), LISTEN_TIMEOUT);
+                    await mi.sendTargetSelectRemote(this.gdb, remote);
+                    if (this.liveMemory) {
+                        await this.liveMemory.reconnect(remote);
+                    }
+
+                    // Connecting halts the core
+                    this.sendEvent(new OutputEvent(`Reconnected to debugger on ${remote}`));
+                    this.isRunning = false;
+                    this.sendStoppedEvent('pause', this.threads.length ? this.threads[0].id : 1, true);
+                    return;
+                } catch (error) {
+                    lastError = error;
+                }
+
+                await new Promise(resolve => setTimeout(resolve, config.interval || RESTART_INTERVAL));
+            }
+        } finally {
+            progress.end();
+            this.serverRestarting = false;
+        }
+
+        throw lastError || new Error('Session stopped');
+    }
+
+    /**
+     * Resets the target mid-session and reports it halted at the reset vector
+     */
+    private async resetSession(mode?: ResetMode): Promise<void> {
+        await this.pauseTarget();
+
+        // Reset on request even when the session started without a reset
+        const resetMode = mode || this.args.resetMode;
+        await this.resetTarget(resetMode !== 'none' ? resetMode : undefined);
+
+        // gdb still caches the registers from before the reset, breakpoints are inserted again on resume
+        await mi.sendUserInput(this.gdb, 'flushregs');
+        this.varobjsStale = true;
+
+        const result = await mi.sendThreadInfoRequest(this.gdb, {});
+        const threadId = result.threads.length ? parseInt(result.threads[0].id, 10) : 1;
+        this.sendStoppedEvent('reset', threadId, true);
+    }
+
+    private async resetTarget(mode: ResetMode | undefined): Promise<void> {
+        if (mode === 'none') {
+            return;
+        }
+
+        const commands = this.args.resetCommands || (this.gdbServer ? this.gdbServer.resolveResetCommands(mode) : []);
+        for (const command of commands) {
+            await mi.sendMonitorCommand(this.gdb, command);
+        }
+    }
+
+    private getGlobalSymbols(): SymbolInformation[] {
+        if (!this.globalSymbols) {
+            const config = this.args.globalScope || {};
+            this.globalSymbols = filterSymbols(this.symbolTable.getGlobalVariables(), config.filter);
+        }
+
+        return this.globalSymbols;
+    }
+
+    private getGlobalGroups(): SymbolGroup[] | undefined {
+        const config = this.args.globalScope || {};
+        if (!config.groupBy || config.groupBy === 'none') {
+            return undefined;
+        }
+
+        if (!this.globalGroups) {
+            this.globalGroups = groupSymbols(this.getGlobalSymbols(), config.groupBy);
+        }
+
+        return this.globalGroups;
+    }
+
+    private async getStaticSymbols(frameHandle: number): Promise<SymbolInformation[]> {
+        const frame = this.frameHandles.get(frameHandle);
+        const result = await mi.sendStackInfoFrame(this.gdb, frame.threadId, frame.frameId);
+        // The full path distinguishes files of the same name, it differs when the program was built elsewhere
+        const variables = result.frame.fullname ? this.symbolTable.getStaticVariables(result.frame.fullname) : [];
+        return variables.length ? variables : this.symbolTable.getStaticVariables(result.frame.file || '');
+    }
+
+    private async getGlobalVariables(args: DebugProtocol.VariablesArguments): Promise<DebugProtocol.Variable[]> {
+        const groups = this.getGlobalGroups();
+        if (!groups) {
+            // Ungrouped globals are paged as indexed variables
+            if (args.filter === 'named') {
+                return [];
+            }
+
+            const symbols = pageItems(this.getGlobalSymbols(), args.start, args.count);
+            return this.getSymbolVariables(symbols, symbol => `global_var_${symbol.name}`);
+        }
+
+        if (args.filter === 'indexed') {
+            return [];
+        }
+
+        return pageItems(groups, args.start, args.count).map(group => ({
+            name: group.name,
+            value: `${group.symbols.length} variable${group.symbols.length === 1 ? '' : 's'}`,
+            variablesReference: this.references.create({ type: 'globalGroup', group: groups.indexOf(group) }),
+            indexedVariables: this.supportsVariablePaging ? group.symbols.length : undefined
+        }));
+    }
+
+    private async getGlobalGroupVariables(index: number, args: DebugProtocol.VariablesArguments): Promise<DebugProtocol.Variable[]> {
+        const groups = this.getGlobalGroups();
+        const group = groups && groups[index];
+        if (!group || args.filter === 'named') {
+            return [];
+        }
+
+        const symbols = pageItems(group.symbols, args.start, args.count);
+        return this.getSymbolVariables(symbols, symbol => `global_var_${symbol.name}`);
+    }
+
+    private async getStaticVariables(frameHandle: number, args: DebugProtocol.VariablesArguments): Promise<DebugProtocol.Variable[]> {
+        if (args.filter === 'named') {
+            return [];
+        }
+
+        const symbols = pageItems(await this.getStaticSymbols(frameHandle), args.start, args.count);
+        return this.getSymbolVariables(symbols, symbol => `${normalize(symbol.file || '')}_static_var_${symbol.name}`);
+    }
+
+    private async getSymbolVariables(symbols: SymbolInformation[], getName: (symbol: SymbolInformation) => string)
+        : Promise<DebugProtocol.Variable[]> {
+        // A single update per stop refreshes the variable objects of every global and static
+        if (this.varobjsStale && this.symbolVarobjs.size) {
+            this.varobjsStale = false;
+            const varobjs = Array.from(this.symbolVarobjs.values());
+            const changes = await (this.gdb as CmsisBackend).sendVarUpdateAll(varobjs.map(varobj => varobj.varname));
+            for (const change of changes) {
+                const varobj = varobjs.find(item => item.varname === change.name);
+                if (varobj && change.in_scope === 'true') {
+                    varobj.value = change.value;
+                }
+            }
+        }
+
+        const variables: DebugProtocol.Variable[] = [];
+        for (const symbol of symbols) {
+            const variable = await this.getSymbolVariable(getName(symbol), symbol.name);
+            variable.memoryReference = toHex(symbol.address);
+            variables.push(variable);
+        }
+
+        return variables;
+    }
+
+    private async getSymbolVariable(name: string, expression: string): Promise<DebugProtocol.Variable> {
+        let varobj = this.symbolVarobjs.get(name);
+
+        // Variable objects are created once, on first display
+        if (!varobj) {
+            const varCreateResponse = await mi.sendVarCreate(this.gdb, {
+                name,
+                frame: 'current',
+                expression,
+            });
+
+            varobj = {
+                varname: varCreateResponse.name,
+                expression,
+                numchild: varCreateResponse.numchild,
+                children: [],
+                value: varCreateResponse.value,
+                type: varCreateResponse.type,
+                isVar: true,
+                isChild: false
+            };
+            this.symbolVarobjs.set(name, varobj);
+        }
+
+        return {
+            name: expression,
+            value: (varobj.value === void 0) ? '<unknown>' : varobj.value,
+            type: varobj.type,
+            variablesReference: parseInt(varobj.numchild, 10) > 0
+                ? this.references.create({
+                    frameHandle: this.globalHandle,
+                    type: 'object',
+                    varobjName: varobj.varname,
+                })
+                : 0,
+        };
+    }
+
+    private async getRegisterValues(threadId?: number, frameId?: number, only?: string[]): Promise<Map<string, number>> {
+        if (!this.registerNames) {
+            const names = await mi.sendDataListRegisterNames(this.gdb);
+            this.registerNames = names['register-names'];
+        }
+
+        const values = new Map<string, number>();
+        const registerNames = this.registerNames;
+        const registers = only ? only.map(name => registerNames.indexOf(name)).filter(index => index !== -1) : undefined;
+        if (registers && !registers.length) {
+            return values;
+        }
+
+        const result = await mi.sendDataListRegisterValues(this.gdb, { format: 'x', threadId, frameId, registers });
+
+        for (const register of result['register-values']) {
+            const name = this.registerNames[parseInt(register.number, 10)];
+            const value = parseInt(register.value, 16);
+            // Skip unnamed registers and vector registers which aren't a single value
+            if (name && !isNaN(value) && register.value.startsWith('0x')) {
+                values.set(name, value);
+            }
+        }
+
+        return values;
+    }
+
+    private async getRegisters(frameHandle: number): Promise<DebugProtocol.Variable[]> {
+        const frame = this.frameHandles.get(frameHandle);
+        const saved = this.isTaskThread(frame.threadId);
+        let values: Map<string, number>;
+        if (saved) {
+            // Saved registers only describe the innermost frame of a task
+            values = frame.frameId === 0 ? await this.getTaskContext(frame.threadId) : new Map();
+        } else {
+            values = await this.getRegisterValues(frame.threadId, frame.frameId);
+        }
+        const variables: DebugProtocol.Variable[] = [];
+
+        values.forEach((value, name) => {
+            let formatted = toHex(value);
+
+            if (name === 'xpsr') {
+                formatted += ` (${decodeXpsr(value)})`;
+            } else if (name === 'control') {
+                formatted += ` (${decodeControl(value)})`;
+            }
+
+            variables.push({
+                name,
+                value: formatted,
+                evaluateName: saved ? undefined : `$${name}`,
+                variablesReference: 0
+            });
+        });
+
+        return variables;
+    }
+
+    private async reportFault(): Promise<void> {
+        // Only a fault handler needs the other registers and the fault status
+        const xpsr = (await this.getRegisterValues(undefined, undefined, ['xpsr'])).get('xpsr');
+        if (xpsr === undefined || !isFaultException(getExceptionNumber(xpsr))) {
+            return;
+        }
+
+        const registers = await this.getRegisterValues();
+
+        const exception = getExceptionName(getExceptionNumber(xpsr));
+        const status = parseFaultStatus(await this.readMemory(SCB_CFSR, SCB_FAULT_REGISTERS_SIZE));
+        const lines = [`${exception} detected:`];
+        lines.push(...decodeFaultStatus(status).map(cause => `  ${cause}`));
+
+        // Unwind the frame stacked on exception entry, the link register holds EXC_RETURN
+        const lr = registers.get('lr');
+        const sp = lr !== undefined && isExcReturn(lr) ? registers.get(getExcReturnStack(lr)) : undefined;
+        if (lr !== undefined && sp !== undefined) {
+            const frame = parseExceptionFrame(await this.readMemory(sp, EXCEPTION_FRAME_SIZE));
+            const symbol = this.symbolTable && this.symbolTable.getFunctionAt(frame.pc);
+            const location = symbol ? ` (${symbol.name}+${toHex((frame.pc & ~1) - (symbol.address & ~1), 0)})` : '';
+
+            lines.push(`  Faulting instruction: ${toHex(frame.pc)}${location}`);
+            lines.push(`  Stacked registers on ${getExcReturnStack(lr).toUpperCase()} at ${toHex(sp)}:`);
+            lines.push(`    r0=${toHex(frame.r0)} r1=${toHex(frame.r1)} r2=${toHex(frame.r2)} r3=${toHex(frame.r3)}`);
+            lines.push(`    r12=${toHex(frame.r12)} lr=${toHex(frame.lr)} pc=${toHex(frame.pc)} xpsr=${toHex(frame.xpsr)}`);
+        }
+
+        this.sendEvent(new OutputEvent(`${lines.join('\n')}\n`, 'stderr'));
+    }
+
+    private getPeripherals(): DebugProtocol.Variable[] {
+        if (!this.svdFile) {
+            return [];
+        }
+
+        return this.svdFile.getPeripherals().map(peripheral => ({
+            name: peripheral.name,
+            value: toHex(peripheral.baseAddress),
+            type: peripheral.description,
+            variablesReference: this.references.create({ type: 'peripheral', peripheral })
+        }));
+    }
+
+    private async getPeripheralVariables(ref: PeripheralReference): Promise<DebugProtocol.Variable[]> {
+        const { peripheral, register, value } = ref;
+
+        if (register && value !== undefined) {
+            // List the fields of a register using the value read with the peripheral
+            return register.fields.map(field => {
+                const fieldValue = getFieldValue(field, value);
+                const enumerated = findEnumeratedValue(field, fieldValue);
+                const formatted = field.bitWidth === 1 ? fieldValue.toString() : toHex(fieldValue, field.bitWidth);
+
+                return {
+                    name: field.name,
+                    value: enumerated ? `${enumerated.name} (${formatted})` : formatted,
+                    type: `[${field.bitOffset + field.bitWidth - 1}:${field.bitOffset}]`,
+                    variablesReference: 0,
+                    presentationHint: isWritable(field.access) ? undefined : { attributes: ['readOnly'] }
+                };
+            });
+        }
+
+        const values = await this.readPeripheral(peripheral);
+        return peripheral.registers.map(reg => {
+            const regValue = values.get(reg);
+            let formatted = regValue !== undefined ? toHex(regValue, reg.size) : '<unavailable>';
+            if (!isReadable(reg.access)) {
+                formatted = '<write-only>';
+            } else if (reg.readAction) {
+                formatted = '<not read, has side effects>';
+            }
+
+            return {
+                name: reg.name,
+                value: formatted,
+                type: toHex(peripheral.baseAddress + reg.addressOffset),
+                variablesReference: (regValue !== undefined && reg.fields.length)
+                    ? this.references.create({ type: 'peripheral', peripheral, register: reg, value: regValue })
+                    : 0,
+                presentationHint: isWritable(reg.access) ? undefined : { attributes: ['readOnly'] }
+            };
+        });
+    }
+
+    private async readPeripheral(peripheral: SvdPeripheral): Promise<Map<SvdRegister, number>> {
+        const values = new Map<SvdRegister, number>();
+        const registers = peripheral.registers.filter(reg => isReadable(reg.access) && !reg.readAction && reg.size <= 32);
+        let index = 0;
+
+        while (index < registers.length) {
+            // Read adjacent registers in a single block
+            const start = registers[index].addressOffset;
+            let end = start + registers[index].size / 8;
+            let next = index + 1;
+            while (next < registers.length && registers[next].addressOffset <= end) {
+                end = Math.max(end, registers[next].addressOffset + registers[next].size / 8);
+                next++;
+            }
+
+            try {
+                const data = await this.readMemory(peripheral.baseAddress + start, end - start);
+                for (const reg of registers.slice(index, next)) {
+                    values.set(reg, data.readUIntLE(reg.addressOffset - start, reg.size / 8));
+                }
+            } catch (error) {
+                // Leave the block unavailable, the bus may fault on disabled peripherals
+                logger.warn(`Unable to read ${peripheral.name}: ${error.message}`);
+            }
+
+            index = next;
+        }
+
+        return values;
+    }
+
+    private async setPeripheralVariable(ref: PeripheralReference, name: string, value: string): Promise<string> {
+        const { peripheral, register } = ref;
+
+        if (!register) {
+            // Write a complete register
+            const reg = peripheral.registers.find(r => r.name === name);
+            if (!reg || !isWritable(reg.access)) {
+                throw new Error(`Register ${name} isn't writable`);
+            }
+            if (reg.size > 32) {
+                throw new Error(`Register ${name} is wider than 32 bits`);
+            }
+
+            const regValue = parseInteger(value);
+            if (regValue === undefined) {
+                throw new Error(`Invalid value '${value}'`);
+            }
+
+            const regData = Buffer.alloc(reg.size / 8);
+            regData.writeUIntLE(regValue, 0, regData.length);
+            await this.writeMemory(peripheral.baseAddress + reg.addressOffset, regData);
+            return toHex(regValue, reg.size);
+        }
+
+        // Read-modify-write a field
+        const field = register.fields.find(f => f.name === name);
+        if (!field || !isWritable(field.access)) {
+            throw new Error(`Field ${name} isn't writable`);
+        }
+        if (register.size > 32) {
+            throw new Error(`Register ${register.name} is wider than 32 bits`);
+        }
+
+        const enumerated = field.enumeratedValues.find(e => e.name === value.trim());
+        const fieldValue = enumerated ? enumerated.value : parseInteger(value);
+        if (fieldValue === undefined) {
+            throw new Error(`Invalid value '${value}'`);
+        }
+
+        const address = peripheral.baseAddress + register.addressOffset;
+        const size = register.size / 8;
+        const current = isReadable(register.access) && !register.readAction
+            ? (await this.readMemory(address, size)).readUIntLE(0, size)
+            : register.resetValue;
+        const data = Buffer.alloc(size);
+        data.writeUIntLE(setFieldValue(field, current, fieldValue), 0, size);
+        await this.writeMemory(address, data);
+        return field.bitWidth === 1 ? fieldValue.toString() : toHex(fieldValue, field.bitWidth);
+    }
+
+    private readMemory(address: number, length: number): Promise<Buffer> {
+        return mi.readMemory(this.gdb, address, length);
+    }
+
+    private writeMemory(address: number, data: Buffer): Promise<void> {
+        return mi.writeMemory(this.gdb, address, data);
+    }
+
+    private startProgress(title: string, cancelHandler?: () => void): ProgressReporter {
+        if (this.progress) {
+            this.progress.end();
+        }
+
+        this.progress = new ProgressReporter(`progress-${++this.progressCount}`, title, event => this.sendEvent(event),
+            this.supportsProgressReporting);
+        this.progress.start(cancelHandler);
+        return this.progress;
+    }
+
+    protected async stopSession() {
+        this.stopping = true;
+        if (this.coreGroup) {
+            // Sessions of further cores end with the server of the primary core
+            if (!this.args.coreGroup) {
+                this.coreGroup.send('terminate');
+            }
+            this.coreGroup.close();
+            this.coreGroup = undefined;
+        }
+
+        this.stopRtt();
+        if (this.swoStream) {
+            this.swoStream.destroy();
+            this.swoStream = undefined;
+        }
+        if (this.liveWatch) {
+            this.liveWatch.stop();
+            this.liveWatch = undefined;
+        }
+        if (this.liveMemory) {
+            await this.liveMemory.disconnect();
+        }
+
+        // Pause debugging
+        await this.pauseTarget();
+
+        // Detach
+        if ((this.gdb as CmsisBackend).isRunning) {
+            try {
+                await this.sendCommands(this.args.preDisconnectCommands, 'pre-disconnect');
+            } catch (e) {
+                // Always continue to disconnect, even when asked to abort on errors
+            }
 
-        // Detach
-        if ((this.gdb as CmsisBackend).isRunning) {
             try {
                 await mi.sendTargetDetach(this.gdb);
             } catch (e) {
@@ -374,8 +2621,9 @@ export class CmsisDebugSession extends GDBDebugSession {
         }
 
         if (this.gdbServer) {
-            this.gdbServer.kill();
+            await this.gdbServer.kill();
         }
+        this.portScanner.releaseAll();
     }
 
     public async shutdown() {
@@ -0,0 +1,189 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { readdir, readFile, stat } from 'fs';
+import { basename, dirname, join } from 'path';
+import { promisify } from 'util';
+import { parseInteger } from './svd';
+import { findChild, findChildren, parseXml, XmlElement } from './xml';
+import { ZipArchive } from './zip';
+
+const readdirAsync = promisify(readdir);
+const readFileAsync = promisify(readFile);
+const statAsync = promisify(stat);
+
+export interface PackMemory {
+    name: string;
+    start: number;
+    size: number;
+    access: string;
+    startup: boolean;
+    isDefault: boolean;
+}
+
+export interface PackDevice {
+    name: string;
+    svd?: string;
+    debugClock?: number;
+    memories: PackMemory[];
+}
+
+/**
+ * Read device descriptions from a CMSIS-Pack (zipped .pack, extracted directory or .pdsc file)
+ */
+export class CmsisPack {
+
+    private archive: ZipArchive | undefined;
+    private root = '';
+    private description: XmlElement | undefined;
+
+    constructor(private pack: string) {
+    }
+
+    public async load(): Promise<void> {
+        const stats = await statAsync(this.pack);
+        let pdsc: string | undefined;
+
+        if (stats.isDirectory()) {
+            this.root = this.pack;
+            const files = await readdirAsync(this.pack);
+            pdsc = files.find(file => file.toLowerCase().endsWith('.pdsc'));
+        } else if (this.pack.toLowerCase().endsWith('.pdsc')) {
+            this.root = dirname(this.pack);
+            pdsc = basename(this.pack);
+        } else {
+            this.archive = new ZipArchive(this.pack);
+            await this.archive.load();
+            pdsc = this.archive.getEntries().find(entry => entry.toLowerCase().endsWith('.pdsc') && entry.indexOf('/') === -1);
+        }
+
+        if (!pdsc) {
+            throw new Error(`No pack description (.pdsc) found in ${this.pack}`);
+        }
+
+        const contents = await this.readFile(pdsc);
+        this.description = parseXml(contents.toString('utf8'));
+    }
+
+    public getDeviceNames(): string[] {
+        return this.findDevices().map(chain => this.deviceName(chain));
+    }
+
+    public getDevice(name?: string): PackDevice {
+        const chains = this.findDevices();
+        let chain: XmlElement[] | undefined;
+
+        if (name) {
+            chain = chains.find(elements => this.deviceName(elements).toLowerCase() === name.toLowerCase());
+        } else if (chains.length === 1) {
+            // No need to name the device if the pack only has one
+            chain = chains[0];
+        }
+
+        if (!chain) {
+            throw new Error(name ? `Device ${name} not found in ${this.pack}` : `A device name is required for ${this.pack}`);
+        }
+
+        const device: PackDevice = {
+            name: this.deviceName(chain),
+            memories: []
+        };
+
+        // Properties are inherited from family to sub-family to device to variant
+        for (const element of chain) {
+            const debug = findChild(element, 'debug');
+            if (debug && debug.attributes.svd) {
+                device.svd = debug.attributes.svd;
+            }
+
+            const debugConfig = findChild(element, 'debugconfig');
+            if (debugConfig) {
+                device.debugClock = parseInteger(debugConfig.attributes.clock) || device.debugClock;
+            }
+
+            for (const memory of findChildren(element, 'memory')) {
+                const memoryName = memory.attributes.name || memory.attributes.id || '';
+                device.memories = device.memories.filter(m => m.name !== memoryName);
+                device.memories.push({
+                    name: memoryName,
+                    start: parseInteger(memory.attributes.start) || 0,
+                    size: parseInteger(memory.attributes.size) || 0,
+                    access: memory.attributes.access || (memoryName.startsWith('IROM') ? 'rx' : 'rwx'),
+                    startup: memory.attributes.startup === '1' || memory.attributes.startup === 'true',
+                    isDefault: memory.attributes.default === '1' || memory.attributes.default === 'true'
+                });
+            }
+        }
+
+        return device;
+    }
+
+    public readFile(path: string): Promise<Buffer> {
+        // Pack descriptions commonly use Windows path separators
+        path = path.replace(/\\/g, '/');
+
+        if (this.archive) {
+            return this.archive.readEntry(path);
+        }
+
+        return readFileAsync(join(this.root, path));
+    }
+
+    /**
+     * List the element chains (family, sub-family, device, variant) for every device in the pack
+     */
+    private findDevices(): XmlElement[][] {
+        const devices = this.description && findChild(this.description, 'devices');
+        const chains: XmlElement[][] = [];
+
+        if (!devices) {
+            return chains;
+        }
+
+        const addDevice = (parents: XmlElement[], device: XmlElement) => {
+            const variants = findChildren(device, 'variant');
+            if (variants.length) {
+                variants.forEach(variant => chains.push([...parents, device, variant]));
+            } else {
+                chains.push([...parents, device]);
+            }
+        };
+
+        for (const family of findChildren(devices, 'family')) {
+            findChildren(family, 'device').forEach(device => addDevice([family], device));
+
+            for (const subFamily of findChildren(family, 'subFamily')) {
+                findChildren(subFamily, 'device').forEach(device => addDevice([family, subFamily], device));
+            }
+        }
+
+        return chains;
+    }
+
+    private deviceName(chain: XmlElement[]): string {
+        const element = chain[chain.length - 1];
+        return element.attributes.Dvariant || element.attributes.Dname || '';
+    }
+}
@@ -0,0 +1,124 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { EventEmitter } from 'events';
+import { AddressInfo, Server, Socket, connect, createServer } from 'net';
+
+export type CoreGroupEvent = 'halt' | 'resume' | 'terminate';
+
+export interface CoreGroupArguments {
+    // Port of the session hosting the group
+    port: number;
+    core: number;
+}
+
+interface CoreGroupMessage {
+    event: CoreGroupEvent;
+    core: number;
+}
+
+/**
+ * Relays run control between the sessions debugging the cores of one device,
+ * the session of the primary core hosts the group and the others connect to it
+ */
+export class CoreGroup extends EventEmitter {
+
+    protected server: Server | undefined;
+    protected sockets: Socket[] = [];
+
+    constructor(public readonly core: number) {
+        super();
+    }
+
+    public host(): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.server = createServer(socket => this.addSocket(socket));
+            this.server.once('error', reject);
+            this.server.listen(0, 'localhost', () => resolve((this.server!.address() as AddressInfo).port));
+        });
+    }
+
+    public join(port: number): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const socket = connect(port, 'localhost');
+            socket.once('error', reject);
+            socket.once('connect', () => {
+                this.addSocket(socket);
+                resolve();
+            });
+        });
+    }
+
+    public send(event: CoreGroupEvent) {
+        const message: CoreGroupMessage = { event, core: this.core };
+        this.broadcast(JSON.stringify(message));
+    }
+
+    public close() {
+        // Ending rather than destroying lets pending messages through
+        this.sockets.forEach(socket => socket.end());
+        this.sockets = [];
+        if (this.server) {
+            this.server.close();
+            this.server = undefined;
+        }
+    }
+
+    protected addSocket(socket: Socket) {
+        let buffer = '';
+        this.sockets.push(socket);
+        socket.setEncoding('utf8');
+        socket.on('data', data => {
+            buffer += data;
+            let end = buffer.indexOf('\n');
+            while (end !== -1) {
+                this.receive(buffer.substring(0, end), socket);
+                buffer = buffer.substring(end + 1);
+                end = buffer.indexOf('\n');
+            }
+        });
+        socket.on('error', () => socket.destroy());
+        socket.on('close', () => this.sockets = this.sockets.filter(item => item !== socket));
+    }
+
+    protected receive(line: string, source: Socket) {
+        let message: CoreGroupMessage;
+        try {
+            message = JSON.parse(line);
+        } catch (_error) {
+            return;
+        }
+
+        // The host forwards messages to the other members
+        if (this.server) {
+            this.broadcast(line, source);
+        }
+        this.emit(message.event, message.core);
+    }
+
+    protected broadcast(line: string, except?: Socket) {
+        this.sockets.filter(socket => socket !== except).forEach(socket => socket.write(`${line}\n`));
+    }
+}
@@ -0,0 +1,202 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+export const SCB_CFSR = 0xE000ED28;
+export const SCB_HFSR = 0xE000ED2C;
+export const SCB_MMFAR = 0xE000ED34;
+export const SCB_BFAR = 0xE000ED38;
+export const SCB_FAULT_REGISTERS_SIZE = SCB_BFAR + 4 - SCB_CFSR;
+
+export const EXCEPTION_HARD_FAULT = 3;
+export const EXCEPTION_MEM_MANAGE = 4;
+export const EXCEPTION_BUS_FAULT = 5;
+export const EXCEPTION_USAGE_FAULT = 6;
+export const EXCEPTION_SECURE_FAULT = 7;
+
+export const EXCEPTION_FRAME_SIZE = 8 * 4;
+export const EXTENDED_FRAME_SIZE = EXCEPTION_FRAME_SIZE + 18 * 4;
+
+// Return to thread mode using the process stack without floating-point state
+export const EXC_RETURN_THREAD_PSP = 0xFFFFFFFD;
+
+const EXCEPTION_NAMES: { [exception: number]: string } = {
+    0: 'Thread mode',
+    1: 'Reset',
+    2: 'NMI',
+    3: 'HardFault',
+    4: 'MemManage',
+    5: 'BusFault',
+    6: 'UsageFault',
+    7: 'SecureFault',
+    11: 'SVCall',
+    12: 'DebugMonitor',
+    14: 'PendSV',
+    15: 'SysTick'
+};
+
+// CFSR bits, MemManage in [7:0], BusFault in [15:8], UsageFault in [31:16]
+const CFSR_CAUSES: Array<[number, string]> = [
+    [1 << 0, 'Instruction access violation (IACCVIOL)'],
+    [1 << 1, 'Data access violation (DACCVIOL)'],
+    [1 << 3, 'MemManage fault on exception return unstacking (MUNSTKERR)'],
+    [1 << 4, 'MemManage fault on exception entry stacking (MSTKERR)'],
+    [1 << 5, 'MemManage fault during floating-point lazy state preservation (MLSPERR)'],
+    [1 << 8, 'Instruction bus error (IBUSERR)'],
+    [1 << 9, 'Precise data bus error (PRECISERR)'],
+    [1 << 10, 'Imprecise data bus error (IMPRECISERR)'],
+    [1 << 11, 'Bus fault on exception return unstacking (UNSTKERR)'],
+    [1 << 12, 'Bus fault on exception entry stacking (STKERR)'],
+    [1 << 13, 'Bus fault during floating-point lazy state preservation (LSPERR)'],
+    [1 << 16, 'Undefined instruction (UNDEFINSTR)'],
+    [1 << 17, 'Invalid EPSR state, e.g. branch to an address without the Thumb bit set (INVSTATE)'],
+    [1 << 18, 'Invalid EXC_RETURN value loaded into the PC (INVPC)'],
+    [1 << 19, 'Attempt to access a coprocessor that is disabled or not present (NOCP)'],
+    [1 << 20, 'Stack overflow detected by the stack limit registers (STKOF)'],
+    [1 << 24, 'Unaligned access (UNALIGNED)'],
+    [1 << 25, 'Divide by zero (DIVBYZERO)']
+];
+
+const HFSR_CAUSES: Array<[number, string]> = [
+    [1 << 1, 'Bus fault on vector table read (VECTTBL)'],
+    [1 << 30, 'Configurable fault escalated to HardFault (FORCED)'],
+    [1 << 31, 'Breakpoint or debug event escalated to HardFault (DEBUGEVT)']
+];
+
+const CFSR_MMARVALID = 1 << 7;
+const CFSR_BFARVALID = 1 << 15;
+
+export interface FaultStatus {
+    cfsr: number;
+    hfsr: number;
+    mmfar: number;
+    bfar: number;
+}
+
+export interface ExceptionFrame {
+    r0: number;
+    r1: number;
+    r2: number;
+    r3: number;
+    r12: number;
+    lr: number;
+    pc: number;
+    xpsr: number;
+}
+
+function hex(value: number): string {
+    return `0x${(value >>> 0).toString(16).toUpperCase().padStart(8, '0')}`;
+}
+
+export function getExceptionName(exception: number): string {
+    if (exception >= 16) {
+        return `IRQ${exception - 16}`;
+    }
+
+    return EXCEPTION_NAMES[exception] || `Exception ${exception}`;
+}
+
+export function getExceptionNumber(xpsr: number): number {
+    return xpsr & 0x1FF;
+}
+
+export function isFaultException(exception: number): boolean {
+    return exception >= EXCEPTION_HARD_FAULT && exception <= EXCEPTION_SECURE_FAULT;
+}
+
+export function isExcReturn(value: number): boolean {
+    return (value >>> 24) === 0xFF;
+}
+
+/**
+ * The stack holding the exception frame, bit 2 of EXC_RETURN selects the process stack
+ */
+export function getExcReturnStack(excReturn: number): 'msp' | 'psp' {
+    return (excReturn & (1 << 2)) ? 'psp' : 'msp';
+}
+
+/**
+ * Whether the exception frame includes floating-point state, bit 4 of EXC_RETURN is clear for extended frames
+ */
+export function hasExtendedFrame(excReturn: number): boolean {
+    return (excReturn & (1 << 4)) === 0;
+}
+
+export function decodeXpsr(xpsr: number): string {
+    const flags = ['N', 'Z', 'C', 'V', 'Q']
+        .map((flag, i) => `${flag}=${(xpsr >>> (31 - i)) & 1}`)
+        .join(' ');
+    const thumb = (xpsr >>> 24) & 1;
+    const exception = getExceptionNumber(xpsr);
+
+    return `${flags} T=${thumb} ISR=${exception} (${getExceptionName(exception)})`;
+}
+
+export function decodeControl(control: number): string {
+    return [
+        (control & 1) ? 'unprivileged' : 'privileged',
+        (control & 2) ? 'PSP' : 'MSP',
+        (control & 4) ? 'FP active' : 'FP inactive'
+    ].join(', ');
+}
+
+export function decodeFaultStatus(status: FaultStatus): string[] {
+    const causes: string[] = [];
+
+    for (const [bit, cause] of HFSR_CAUSES) {
+        if (status.hfsr & bit) {
+            causes.push(cause);
+        }
+    }
+
+    for (const [bit, cause] of CFSR_CAUSES) {
+        if (status.cfsr & bit) {
+            causes.push(cause);
+        }
+    }
+
+    if (status.cfsr & CFSR_MMARVALID) {
+        causes.push(`MemManage fault address: ${hex(status.mmfar)}`);
+    }
+
+    if (status.cfsr & CFSR_BFARVALID) {
+        causes.push(`Bus fault address: ${hex(status.bfar)}`);
+    }
+
+    return causes;
+}
+
+export function parseFaultStatus(data: Buffer): FaultStatus {
+    return {
+        cfsr: data.readUInt32LE(SCB_CFSR - SCB_CFSR),
+        hfsr: data.readUInt32LE(SCB_HFSR - SCB_CFSR),
+        mmfar: data.readUInt32LE(SCB_MMFAR - SCB_CFSR),
+        bfar: data.readUInt32LE(SCB_BFAR - SCB_CFSR)
+    };
+}
+
+export function parseExceptionFrame(data: Buffer): ExceptionFrame {
+    const [r0, r1, r2, r3, r12, lr, pc, xpsr] = Array.from({ length: 8 }, (_, i) => data.readUInt32LE(i * 4));
+    return { r0, r1, r2, r3, r12, lr, pc, xpsr };
+}
@@ -0,0 +1,200 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { basename } from 'path';
+import { Source } from 'vscode-debugadapter';
+import { DebugProtocol } from 'vscode-debugprotocol';
+import { GDBBackend } from 'cdt-gdb-adapter/dist/GDBBackend';
+import { MemoryMap } from './memory-map';
+import { SymbolTable } from './symbols';
+import { toHex } from './svd';
+import * as mi from './mi';
+
+// Thumb instructions are either 2 or 4 bytes
+const MIN_INSTRUCTION_SIZE = 2;
+const MAX_INSTRUCTION_SIZE = 4;
+// Furthest distance from a function start used to align backwards disassembly
+const MAX_FUNCTION_SYNC = 0x1000;
+
+const BRANCH_REGEX = /^(?:b|bl|blx|cbz|cbnz|b[a-z]{2})(?:\.[nw])?\s.*?\b(0x[0-9a-f]+)\s*$/i;
+
+interface Instruction extends DebugProtocol.DisassembledInstruction {
+    size: number;
+    source?: Source;
+}
+
+/**
+ * Disassembly with source interleaving for the disassembly view, relative to an instruction reference
+ */
+export class Disassembler {
+
+    constructor(private gdb: GDBBackend, private memoryMap: MemoryMap, private symbolTable?: SymbolTable) {
+    }
+
+    public async disassemble(address: number, instructionOffset: number, count: number): Promise<DebugProtocol.DisassembledInstruction[]> {
+        const instructions: Instruction[] = [];
+
+        if (instructionOffset < 0) {
+            // Instructions before the reference are padded so the reference keeps its position
+            const before = await this.disassembleBefore(address, -instructionOffset);
+            let padAddress = before.length ? this.parseAddress(before[0].address) : address;
+            while (before.length < -instructionOffset) {
+                padAddress -= MIN_INSTRUCTION_SIZE;
+                before.unshift(this.createInvalid(padAddress));
+            }
+            instructions.push(...before.slice(0, count));
+        }
+
+        const skip = Math.max(instructionOffset, 0);
+        const remaining = count - instructions.length;
+        if (remaining > 0) {
+            const after = (await this.disassembleAfter(address, skip + remaining)).slice(skip);
+            let padAddress = after.length ? this.parseAddress(after[after.length - 1].address) + after[after.length - 1].size : address;
+            while (after.length < remaining) {
+                after.push(this.createInvalid(padAddress));
+                padAddress += MIN_INSTRUCTION_SIZE;
+            }
+            instructions.push(...after);
+        }
+
+        // The source only needs repeating when it changes
+        let lastPath: string | undefined;
+        return instructions.map(({ size, source, ...instruction }) => {
+            if (source && source.path !== lastPath) {
+                instruction.location = source;
+            }
+            lastPath = source ? source.path : undefined;
+            return instruction;
+        });
+    }
+
+    protected async disassembleBefore(address: number, count: number): Promise<Instruction[]> {
+        let start = address - count * MAX_INSTRUCTION_SIZE;
+
+        if (!this.memoryMap.isEmpty) {
+            const region = this.memoryMap.findRegion(address - 1);
+            if (!region) {
+                return [];
+            }
+            start = Math.max(start, region.start);
+        }
+
+        // Decoding from an arbitrary address can split an instruction, prefer a start which lands on the reference
+        const candidates = [start, start + MIN_INSTRUCTION_SIZE];
+        const symbol = this.symbolTable && this.symbolTable.getFunctionAt(start);
+        if (symbol && start - (symbol.address & ~1) <= MAX_FUNCTION_SYNC) {
+            candidates.unshift(symbol.address & ~1);
+        }
+
+        let instructions: Instruction[] = [];
+        for (const candidate of candidates.filter(c => c < address)) {
+            instructions = await this.fetch(candidate, address);
+            const last = instructions[instructions.length - 1];
+            if (last && this.parseAddress(last.address) + last.size === address) {
+                break;
+            }
+        }
+
+        return instructions.filter(instruction => this.parseAddress(instruction.address) < address).slice(-count);
+    }
+
+    protected async disassembleAfter(address: number, count: number): Promise<Instruction[]> {
+        const length = this.memoryMap.getAccessibleLength(address, count * MAX_INSTRUCTION_SIZE);
+        if (length === 0) {
+            return [];
+        }
+
+        const instructions = await this.fetch(address, address + length);
+        return instructions.slice(0, count);
+    }
+
+    protected async fetch(start: number, end: number): Promise<Instruction[]> {
+        let result;
+        try {
+            result = await mi.sendDataDisassemble(this.gdb, toHex(start), toHex(end));
+        } catch (error) {
+            // Unreadable memory is padded by the caller
+            return [];
+        }
+
+        const instructions: Instruction[] = [];
+
+        for (const group of result.asm_insns) {
+            const line = group.line ? parseInt(group.line, 10) : undefined;
+
+            for (const asm of group.line_asm_insn) {
+                if (!asm.address) {
+                    continue;
+                }
+
+                const instruction: Instruction = {
+                    address: toHex(this.parseAddress(asm.address)),
+                    instructionBytes: asm.opcodes,
+                    instruction: this.annotateBranch(asm.inst),
+                    symbol: asm['func-name'] ? (asm.offset && asm.offset !== '0' ? `${asm['func-name']}+${asm.offset}` : asm['func-name']) : undefined,
+                    size: asm.opcodes ? asm.opcodes.replace(/\s/g, '').length / 2 : MIN_INSTRUCTION_SIZE
+                };
+
+                if (group.fullname && line !== undefined) {
+                    instruction.source = new Source(basename(group.file || group.fullname), group.fullname);
+                    instruction.line = line;
+                }
+
+                instructions.push(instruction);
+            }
+        }
+
+        return instructions.sort((a, b) => this.parseAddress(a.address) - this.parseAddress(b.address));
+    }
+
+    protected annotateBranch(text: string): string {
+        // GDB only names targets it has symbols for in the current objfile
+        const match = text.match(BRANCH_REGEX);
+        if (!match || !this.symbolTable || text.indexOf('<') !== -1) {
+            return text;
+        }
+
+        const target = parseInt(match[1], 16);
+        const symbol = this.symbolTable.getFunctionAt(target);
+        if (!symbol) {
+            return text;
+        }
+
+        const offset = target - (symbol.address & ~1);
+        return `${text} <${symbol.name}${offset ? `+${offset}` : ''}>`;
+    }
+
+    private createInvalid(address: number): Instruction {
+        return {
+            address: toHex(address),
+            instruction: '??',
+            size: MIN_INSTRUCTION_SIZE
+        };
+    }
+
+    private parseAddress(address: string): number {
+        return parseInt(address, 16);
+    }
+}
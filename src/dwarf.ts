@@ -0,0 +1,498 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { isAbsolute, join } from 'path';
+import { BinaryReader, ElfFile } from './elf';
+
+const DW_TAG_COMPILE_UNIT = 0x11;
+const DW_TAG_VARIABLE = 0x34;
+const DW_TAG_PARTIAL_UNIT = 0x3C;
+const DW_TAG_SKELETON_UNIT = 0x4A;
+
+const DW_AT_LOCATION = 0x02;
+const DW_AT_NAME = 0x03;
+const DW_AT_LOW_PC = 0x11;
+const DW_AT_HIGH_PC = 0x12;
+const DW_AT_COMP_DIR = 0x1B;
+const DW_AT_STR_OFFSETS_BASE = 0x72;
+const DW_AT_ADDR_BASE = 0x73;
+
+const DW_FORM_ADDR = 0x01;
+const DW_FORM_BLOCK2 = 0x03;
+const DW_FORM_BLOCK4 = 0x04;
+const DW_FORM_DATA2 = 0x05;
+const DW_FORM_DATA4 = 0x06;
+const DW_FORM_DATA8 = 0x07;
+const DW_FORM_STRING = 0x08;
+const DW_FORM_BLOCK = 0x09;
+const DW_FORM_BLOCK1 = 0x0A;
+const DW_FORM_DATA1 = 0x0B;
+const DW_FORM_FLAG = 0x0C;
+const DW_FORM_SDATA = 0x0D;
+const DW_FORM_STRP = 0x0E;
+const DW_FORM_UDATA = 0x0F;
+const DW_FORM_REF_ADDR = 0x10;
+const DW_FORM_REF1 = 0x11;
+const DW_FORM_REF2 = 0x12;
+const DW_FORM_REF4 = 0x13;
+const DW_FORM_REF8 = 0x14;
+const DW_FORM_REF_UDATA = 0x15;
+const DW_FORM_INDIRECT = 0x16;
+const DW_FORM_SEC_OFFSET = 0x17;
+const DW_FORM_EXPRLOC = 0x18;
+const DW_FORM_FLAG_PRESENT = 0x19;
+const DW_FORM_STRX = 0x1A;
+const DW_FORM_ADDRX = 0x1B;
+const DW_FORM_REF_SUP4 = 0x1C;
+const DW_FORM_STRP_SUP = 0x1D;
+const DW_FORM_DATA16 = 0x1E;
+const DW_FORM_LINE_STRP = 0x1F;
+const DW_FORM_REF_SIG8 = 0x20;
+const DW_FORM_IMPLICIT_CONST = 0x21;
+const DW_FORM_LOCLISTX = 0x22;
+const DW_FORM_RNGLISTX = 0x23;
+const DW_FORM_REF_SUP8 = 0x24;
+const DW_FORM_STRX1 = 0x25;
+const DW_FORM_STRX2 = 0x26;
+const DW_FORM_STRX3 = 0x27;
+const DW_FORM_STRX4 = 0x28;
+const DW_FORM_ADDRX1 = 0x29;
+const DW_FORM_ADDRX2 = 0x2A;
+const DW_FORM_ADDRX3 = 0x2B;
+const DW_FORM_ADDRX4 = 0x2C;
+const DW_FORM_GNU_ADDR_INDEX = 0x1F01;
+const DW_FORM_GNU_STR_INDEX = 0x1F02;
+const DW_FORM_GNU_REF_ALT = 0x1F20;
+const DW_FORM_GNU_STRP_ALT = 0x1F21;
+
+const DW_UT_TYPE = 0x02;
+const DW_UT_SKELETON = 0x04;
+const DW_UT_SPLIT_COMPILE = 0x05;
+const DW_UT_SPLIT_TYPE = 0x06;
+
+const DW_OP_ADDR = 0x03;
+const DW_OP_ADDRX = 0xA1;
+const DW_OP_GNU_ADDR_INDEX = 0xFB;
+
+export interface CompileUnit {
+    name: string;
+    directory?: string;
+    file: string;
+    lowPc?: number;
+    highPc?: number;
+    variables: number[];
+}
+
+interface AbbreviationAttribute {
+    name: number;
+    form: number;
+    value?: number;
+}
+
+interface Abbreviation {
+    tag: number;
+    hasChildren: boolean;
+    attributes: AbbreviationAttribute[];
+}
+
+interface UnitContext {
+    littleEndian: boolean;
+    version: number;
+    offsetSize: number;
+    addressSize: number;
+    strOffsetsBase: number;
+    addrBase: number;
+}
+
+interface AttributeValue {
+    form: number;
+    value?: number;
+    string?: string;
+    block?: Buffer;
+}
+
+interface DebugSections {
+    info: Buffer;
+    abbrev: Buffer;
+    str: Buffer;
+    lineStr: Buffer;
+    strOffsets: Buffer;
+    addr: Buffer;
+}
+
+/**
+ * Read the compile units from the DWARF information of an ELF file, including the addresses of statically allocated variables
+ */
+export async function readCompileUnits(elf: ElfFile): Promise<CompileUnit[]> {
+    const load = async (name: string) => {
+        const section = elf.getSection(name);
+        return section ? elf.getSectionData(section) : Buffer.alloc(0);
+    };
+
+    const sections: DebugSections = {
+        info: await load('.debug_info'),
+        abbrev: await load('.debug_abbrev'),
+        str: await load('.debug_str'),
+        lineStr: await load('.debug_line_str'),
+        strOffsets: await load('.debug_str_offsets'),
+        addr: await load('.debug_addr')
+    };
+
+    const units: CompileUnit[] = [];
+    const abbreviations = new Map<number, Map<number, Abbreviation>>();
+    const reader = elf.createReader(sections.info);
+
+    while (reader.remaining > 0) {
+        let length = reader.readU32();
+        let offsetSize = 4;
+        if (length === 0xFFFFFFFF) {
+            length = reader.readU64();
+            offsetSize = 8;
+        }
+
+        const end = reader.offset + length;
+        const version = reader.readU16();
+        let addressSize: number;
+        let abbrevOffset: number;
+        let unitType = 0;
+
+        if (version >= 5) {
+            unitType = reader.readU8();
+            addressSize = reader.readU8();
+            abbrevOffset = reader.readUnsigned(offsetSize);
+            if (unitType === DW_UT_SKELETON || unitType === DW_UT_SPLIT_COMPILE) {
+                reader.skip(8);
+            } else if (unitType === DW_UT_TYPE || unitType === DW_UT_SPLIT_TYPE) {
+                reader.skip(8 + offsetSize);
+            }
+        } else {
+            abbrevOffset = reader.readUnsigned(offsetSize);
+            addressSize = reader.readU8();
+        }
+
+        if (unitType !== DW_UT_TYPE && unitType !== DW_UT_SPLIT_TYPE) {
+            let table = abbreviations.get(abbrevOffset);
+            if (!table) {
+                table = readAbbreviations(elf.createReader(sections.abbrev, abbrevOffset));
+                abbreviations.set(abbrevOffset, table);
+            }
+
+            const context: UnitContext = {
+                littleEndian: elf.littleEndian,
+                version,
+                offsetSize,
+                addressSize,
+                strOffsetsBase: offsetSize * 2,
+                addrBase: offsetSize * 2
+            };
+            const unit = readUnit(elf.createReader(sections.info.slice(0, end), reader.offset), table, context, sections);
+            if (unit) {
+                units.push(unit);
+            }
+        }
+
+        reader.offset = end;
+    }
+
+    return units;
+}
+
+function readAbbreviations(reader: BinaryReader): Map<number, Abbreviation> {
+    const table = new Map<number, Abbreviation>();
+
+    while (reader.remaining > 0) {
+        const code = reader.readULEB128();
+        if (code === 0) {
+            break;
+        }
+
+        const tag = reader.readULEB128();
+        const hasChildren = reader.readU8() !== 0;
+        const attributes: AbbreviationAttribute[] = [];
+
+        while (true) {
+            const name = reader.readULEB128();
+            const form = reader.readULEB128();
+            if (name === 0 && form === 0) {
+                break;
+            }
+
+            const value = form === DW_FORM_IMPLICIT_CONST ? reader.readSLEB128() : undefined;
+            attributes.push({ name, form, value });
+        }
+
+        table.set(code, { tag, hasChildren, attributes });
+    }
+
+    return table;
+}
+
+function readUnit(reader: BinaryReader, table: Map<number, Abbreviation>, context: UnitContext, sections: DebugSections)
+    : CompileUnit | undefined {
+    const root = readEntry(reader, table, context);
+    if (!root || (root.tag !== DW_TAG_COMPILE_UNIT && root.tag !== DW_TAG_PARTIAL_UNIT && root.tag !== DW_TAG_SKELETON_UNIT)) {
+        return undefined;
+    }
+
+    // Index bases are attributes of the unit itself, resolve them before any indexed values
+    const strOffsetsBase = root.values.get(DW_AT_STR_OFFSETS_BASE);
+    if (strOffsetsBase && strOffsetsBase.value !== undefined) {
+        context.strOffsetsBase = strOffsetsBase.value;
+    }
+    const addrBase = root.values.get(DW_AT_ADDR_BASE);
+    if (addrBase && addrBase.value !== undefined) {
+        context.addrBase = addrBase.value;
+    }
+
+    const name = getString(root.values.get(DW_AT_NAME), context, sections) || '';
+    const directory = getString(root.values.get(DW_AT_COMP_DIR), context, sections);
+    const lowPc = getAddress(root.values.get(DW_AT_LOW_PC), context, sections);
+    const highPcValue = root.values.get(DW_AT_HIGH_PC);
+    let highPc = getAddress(highPcValue, context, sections);
+    if (highPcValue && highPcValue.form !== DW_FORM_ADDR && lowPc !== undefined && highPc !== undefined) {
+        // Constant forms encode the size of the unit rather than an address
+        highPc += lowPc;
+    }
+
+    const unit: CompileUnit = {
+        name,
+        directory,
+        file: directory && !isAbsolute(name) && !/^[a-zA-Z]:[\\/]/.test(name) ? join(directory, name) : name,
+        lowPc,
+        highPc,
+        variables: []
+    };
+
+    if (!root.hasChildren) {
+        return unit;
+    }
+
+    let depth = 1;
+    while (depth > 0 && reader.remaining > 0) {
+        const entry = readEntry(reader, table, context);
+        if (!entry) {
+            depth--;
+            continue;
+        }
+
+        if (entry.tag === DW_TAG_VARIABLE) {
+            const address = getLocationAddress(entry.values.get(DW_AT_LOCATION), context, sections);
+            if (address !== undefined) {
+                unit.variables.push(address);
+            }
+        }
+
+        if (entry.hasChildren) {
+            depth++;
+        }
+    }
+
+    return unit;
+}
+
+function readEntry(reader: BinaryReader, table: Map<number, Abbreviation>, context: UnitContext)
+    : { tag: number, hasChildren: boolean, values: Map<number, AttributeValue> } | undefined {
+    const code = reader.readULEB128();
+    if (code === 0) {
+        return undefined;
+    }
+
+    const abbreviation = table.get(code);
+    if (!abbreviation) {
+        throw new Error(`Unknown DWARF abbreviation ${code}`);
+    }
+
+    const values = new Map<number, AttributeValue>();
+    for (const attribute of abbreviation.attributes) {
+        values.set(attribute.name, readAttribute(reader, attribute.form, context, attribute.value));
+    }
+
+    return {
+        tag: abbreviation.tag,
+        hasChildren: abbreviation.hasChildren,
+        values
+    };
+}
+
+function readAttribute(reader: BinaryReader, form: number, context: UnitContext, implicitValue?: number): AttributeValue {
+    const readBlock = (length: number) => {
+        const block = reader.buffer.slice(reader.offset, reader.offset + length);
+        reader.skip(length);
+        return { form, block };
+    };
+
+    switch (form) {
+        case DW_FORM_ADDR:
+            return { form, value: reader.readUnsigned(context.addressSize) };
+        case DW_FORM_BLOCK1:
+            return readBlock(reader.readU8());
+        case DW_FORM_BLOCK2:
+            return readBlock(reader.readU16());
+        case DW_FORM_BLOCK4:
+            return readBlock(reader.readU32());
+        case DW_FORM_BLOCK:
+        case DW_FORM_EXPRLOC:
+            return readBlock(reader.readULEB128());
+        case DW_FORM_DATA1:
+        case DW_FORM_FLAG:
+        case DW_FORM_REF1:
+        case DW_FORM_STRX1:
+        case DW_FORM_ADDRX1:
+            return { form, value: reader.readU8() };
+        case DW_FORM_DATA2:
+        case DW_FORM_REF2:
+        case DW_FORM_STRX2:
+        case DW_FORM_ADDRX2:
+            return { form, value: reader.readU16() };
+        case DW_FORM_STRX3:
+        case DW_FORM_ADDRX3:
+            return { form, value: reader.readUnsigned(3) };
+        case DW_FORM_DATA4:
+        case DW_FORM_REF4:
+        case DW_FORM_REF_SUP4:
+        case DW_FORM_STRX4:
+        case DW_FORM_ADDRX4:
+            return { form, value: reader.readU32() };
+        case DW_FORM_DATA8:
+        case DW_FORM_REF8:
+        case DW_FORM_REF_SIG8:
+        case DW_FORM_REF_SUP8:
+            return { form, value: reader.readU64() };
+        case DW_FORM_DATA16:
+            return readBlock(16);
+        case DW_FORM_SDATA:
+            return { form, value: reader.readSLEB128() };
+        case DW_FORM_UDATA:
+        case DW_FORM_REF_UDATA:
+        case DW_FORM_STRX:
+        case DW_FORM_ADDRX:
+        case DW_FORM_LOCLISTX:
+        case DW_FORM_RNGLISTX:
+        case DW_FORM_GNU_ADDR_INDEX:
+        case DW_FORM_GNU_STR_INDEX:
+            return { form, value: reader.readULEB128() };
+        case DW_FORM_STRING:
+            return { form, string: reader.readString() };
+        case DW_FORM_STRP:
+        case DW_FORM_LINE_STRP:
+        case DW_FORM_SEC_OFFSET:
+        case DW_FORM_STRP_SUP:
+        case DW_FORM_GNU_REF_ALT:
+        case DW_FORM_GNU_STRP_ALT:
+            return { form, value: reader.readUnsigned(context.offsetSize) };
+        case DW_FORM_REF_ADDR:
+            // DWARF 2 sized references as addresses
+            return { form, value: reader.readUnsigned(context.version <= 2 ? context.addressSize : context.offsetSize) };
+        case DW_FORM_FLAG_PRESENT:
+            return { form, value: 1 };
+        case DW_FORM_IMPLICIT_CONST:
+            return { form, value: implicitValue };
+        case DW_FORM_INDIRECT:
+            return readAttribute(reader, reader.readULEB128(), context);
+        default:
+            throw new Error(`Unsupported DWARF form ${form}`);
+    }
+}
+
+function getString(attribute: AttributeValue | undefined, context: UnitContext, sections: DebugSections): string | undefined {
+    if (!attribute) {
+        return undefined;
+    }
+
+    const readAt = (data: Buffer, offset: number) => offset < data.length ? new BinaryReader(data, offset).readString() : undefined;
+
+    switch (attribute.form) {
+        case DW_FORM_STRING:
+            return attribute.string;
+        case DW_FORM_STRP:
+            return readAt(sections.str, attribute.value!);
+        case DW_FORM_LINE_STRP:
+            return readAt(sections.lineStr, attribute.value!);
+        case DW_FORM_STRX:
+        case DW_FORM_STRX1:
+        case DW_FORM_STRX2:
+        case DW_FORM_STRX3:
+        case DW_FORM_STRX4:
+        case DW_FORM_GNU_STR_INDEX:
+            const position = context.strOffsetsBase + attribute.value! * context.offsetSize;
+            if (position + context.offsetSize > sections.strOffsets.length) {
+                return undefined;
+            }
+            const offset = new BinaryReader(sections.strOffsets, position, context.littleEndian).readUnsigned(context.offsetSize);
+            return readAt(sections.str, offset);
+        default:
+            return undefined;
+    }
+}
+
+function getIndexedAddress(index: number, context: UnitContext, sections: DebugSections): number | undefined {
+    const position = context.addrBase + index * context.addressSize;
+    if (position + context.addressSize > sections.addr.length) {
+        return undefined;
+    }
+
+    return new BinaryReader(sections.addr, position, context.littleEndian).readUnsigned(context.addressSize);
+}
+
+function getAddress(attribute: AttributeValue | undefined, context: UnitContext, sections: DebugSections)
+    : number | undefined {
+    if (!attribute || attribute.value === undefined) {
+        return undefined;
+    }
+
+    switch (attribute.form) {
+        case DW_FORM_ADDRX:
+        case DW_FORM_ADDRX1:
+        case DW_FORM_ADDRX2:
+        case DW_FORM_ADDRX3:
+        case DW_FORM_ADDRX4:
+        case DW_FORM_GNU_ADDR_INDEX:
+            return getIndexedAddress(attribute.value, context, sections);
+        default:
+            return attribute.value;
+    }
+}
+
+function getLocationAddress(attribute: AttributeValue | undefined, context: UnitContext, sections: DebugSections)
+    : number | undefined {
+    // Only a single address operation describes a statically allocated variable
+    if (!attribute || !attribute.block || attribute.block.length === 0) {
+        return undefined;
+    }
+
+    const reader = new BinaryReader(attribute.block, 0, context.littleEndian);
+    const operation = reader.readU8();
+
+    if (operation === DW_OP_ADDR && attribute.block.length === 1 + context.addressSize) {
+        return reader.readUnsigned(context.addressSize);
+    }
+
+    if (operation === DW_OP_ADDRX || operation === DW_OP_GNU_ADDR_INDEX) {
+        const index = reader.readULEB128();
+        return reader.remaining === 0 ? getIndexedAddress(index, context, sections) : undefined;
+    }
+
+    return undefined;
+}
@@ -0,0 +1,391 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { readFile } from 'fs';
+import { promisify } from 'util';
+import { inflate } from 'zlib';
+
+const readFileAsync = promisify(readFile);
+const inflateAsync = promisify(inflate);
+
+const ELF_MAGIC = 0x7F454C46;
+const ELF_CLASS_64 = 2;
+const ELF_DATA_BIG_ENDIAN = 2;
+
+export const SHT_PROGBITS = 1;
+export const SHT_SYMTAB = 2;
+export const SHT_STRTAB = 3;
+export const SHT_RELA = 4;
+export const SHT_NOBITS = 8;
+export const SHT_REL = 9;
+
+export const PT_LOAD = 1;
+
+export const SHF_WRITE = 0x1;
+export const SHF_ALLOC = 0x2;
+export const SHF_EXECINSTR = 0x4;
+const SHF_COMPRESSED = 0x800;
+const ELFCOMPRESS_ZLIB = 1;
+
+export const STT_OBJECT = 1;
+export const STT_FUNC = 2;
+export const STT_SECTION = 3;
+export const STT_FILE = 4;
+
+export const STB_LOCAL = 0;
+export const STB_GLOBAL = 1;
+export const STB_WEAK = 2;
+
+export const STV_HIDDEN = 2;
+
+export const SHN_UNDEF = 0;
+export const SHN_ABS = 0xFFF1;
+export const SHN_COMMON = 0xFFF2;
+
+export interface ElfSection {
+    index: number;
+    name: string;
+    type: number;
+    flags: number;
+    address: number;
+    offset: number;
+    size: number;
+    link: number;
+}
+
+export interface ElfSegment {
+    type: number;
+    offset: number;
+    virtualAddress: number;
+    physicalAddress: number;
+    fileSize: number;
+    memorySize: number;
+}
+
+export interface ElfSymbol {
+    name: string;
+    value: number;
+    size: number;
+    type: number;
+    binding: number;
+    visibility: number;
+    sectionIndex: number;
+}
+
+/**
+ * Cursor over a buffer honouring the byte order of the file it was read from
+ */
+export class BinaryReader {
+
+    constructor(public buffer: Buffer, public offset = 0, public littleEndian = true) {
+    }
+
+    public get remaining(): number {
+        return this.buffer.length - this.offset;
+    }
+
+    public readU8(): number {
+        return this.buffer.readUInt8(this.offset++);
+    }
+
+    public readU16(): number {
+        const value = this.littleEndian ? this.buffer.readUInt16LE(this.offset) : this.buffer.readUInt16BE(this.offset);
+        this.offset += 2;
+        return value;
+    }
+
+    public readU32(): number {
+        const value = this.littleEndian ? this.buffer.readUInt32LE(this.offset) : this.buffer.readUInt32BE(this.offset);
+        this.offset += 4;
+        return value;
+    }
+
+    public readU64(): number {
+        // Addresses fit comfortably in a double, avoid BigInt for the es6 target
+        const first = this.readU32();
+        const second = this.readU32();
+        return this.littleEndian ? second * 0x100000000 + first : first * 0x100000000 + second;
+    }
+
+    public readUnsigned(size: number): number {
+        switch (size) {
+            case 1:
+                return this.readU8();
+            case 2:
+                return this.readU16();
+            case 4:
+                return this.readU32();
+            case 8:
+                return this.readU64();
+            default:
+                let value = 0;
+                for (let i = 0; i < size; i++) {
+                    const byte = this.readU8();
+                    value = this.littleEndian ? value + byte * Math.pow(2, 8 * i) : value * 256 + byte;
+                }
+                return value;
+        }
+    }
+
+    public readULEB128(): number {
+        let value = 0;
+        let shift = 0;
+        let byte: number;
+        do {
+            byte = this.readU8();
+            value += (byte & 0x7F) * Math.pow(2, shift);
+            shift += 7;
+        } while (byte & 0x80);
+        return value;
+    }
+
+    public readSLEB128(): number {
+        let value = 0;
+        let shift = 0;
+        let byte: number;
+        do {
+            byte = this.readU8();
+            value += (byte & 0x7F) * Math.pow(2, shift);
+            shift += 7;
+        } while (byte & 0x80);
+
+        if (byte & 0x40) {
+            value -= Math.pow(2, shift);
+        }
+        return value;
+    }
+
+    public readString(): string {
+        const end = this.buffer.indexOf(0, this.offset);
+        const stop = end === -1 ? this.buffer.length : end;
+        const value = this.buffer.toString('utf8', this.offset, stop);
+        this.offset = stop + 1;
+        return value;
+    }
+
+    public skip(length: number) {
+        this.offset += length;
+    }
+}
+
+/**
+ * Section headers and symbol table of 32 and 64-bit ELF files, read without any toolchain
+ */
+export class ElfFile {
+
+    public is64Bit = false;
+    public littleEndian = true;
+
+    private data = Buffer.alloc(0);
+    private sections: ElfSection[] = [];
+    private segments: ElfSegment[] = [];
+    private symbols: ElfSymbol[] = [];
+
+    constructor(private file: string) {
+    }
+
+    public async load(): Promise<void> {
+        this.data = await readFileAsync(this.file);
+
+        if (this.data.length < 52 || this.data.readUInt32BE(0) !== ELF_MAGIC) {
+            throw new Error(`${this.file} is not an ELF file`);
+        }
+
+        this.is64Bit = this.data.readUInt8(4) === ELF_CLASS_64;
+        this.littleEndian = this.data.readUInt8(5) !== ELF_DATA_BIG_ENDIAN;
+
+        this.readSections();
+        this.readSegments();
+        this.readSymbols();
+    }
+
+    public getSections(): ElfSection[] {
+        return this.sections;
+    }
+
+    public getSection(name: string): ElfSection | undefined {
+        return this.sections.find(section => section.name === name);
+    }
+
+    public getSegments(): ElfSegment[] {
+        return this.segments;
+    }
+
+    /**
+     * Address a section is loaded to, which differs from its run address for initialised data
+     */
+    public getLoadAddress(section: ElfSection): number {
+        const segment = this.segments.find(item => item.type === PT_LOAD
+            && section.offset >= item.offset && section.offset < item.offset + item.fileSize);
+        return segment ? segment.physicalAddress + section.offset - segment.offset : section.address;
+    }
+
+    public getSymbols(): ElfSymbol[] {
+        return this.symbols;
+    }
+
+    public createReader(data: Buffer, offset = 0): BinaryReader {
+        return new BinaryReader(data, offset, this.littleEndian);
+    }
+
+    public async getSectionData(section: ElfSection): Promise<Buffer> {
+        if (section.type === SHT_NOBITS) {
+            return Buffer.alloc(0);
+        }
+
+        const data = this.getRawSectionData(section);
+        if (!(section.flags & SHF_COMPRESSED)) {
+            return data;
+        }
+
+        // Compressed debug sections are prefixed with a header describing the algorithm
+        const reader = this.createReader(data);
+        const type = reader.readU32();
+        reader.skip(this.is64Bit ? 20 : 8);
+        if (type !== ELFCOMPRESS_ZLIB) {
+            throw new Error(`Unsupported compression type ${type} for section ${section.name}`);
+        }
+
+        return await inflateAsync(data.slice(reader.offset)) as Buffer;
+    }
+
+    private getRawSectionData(section: ElfSection): Buffer {
+        if (section.offset + section.size > this.data.length) {
+            throw new Error(`Section ${section.name} exceeds the end of ${this.file}`);
+        }
+
+        return this.data.slice(section.offset, section.offset + section.size);
+    }
+
+    private readSections() {
+        const header = this.createReader(this.data, this.is64Bit ? 0x28 : 0x20);
+        const sectionOffset = this.is64Bit ? header.readU64() : header.readU32();
+        // Skip flags, header size and program header entries
+        header.skip(10);
+        const entrySize = header.readU16();
+        const count = header.readU16();
+        const namesIndex = header.readU16();
+        const nameOffsets: number[] = [];
+
+        for (let index = 0; index < count; index++) {
+            const reader = this.createReader(this.data, sectionOffset + index * entrySize);
+            nameOffsets.push(reader.readU32());
+            const type = reader.readU32();
+            const flags = this.is64Bit ? reader.readU64() : reader.readU32();
+            const address = this.is64Bit ? reader.readU64() : reader.readU32();
+            const offset = this.is64Bit ? reader.readU64() : reader.readU32();
+            const size = this.is64Bit ? reader.readU64() : reader.readU32();
+            const link = reader.readU32();
+
+            this.sections.push({
+                index,
+                name: '',
+                type,
+                flags,
+                address,
+                offset,
+                size,
+                link
+            });
+        }
+
+        // Names can only be resolved once the section holding them is known
+        const names = this.sections[namesIndex] ? this.getRawSectionData(this.sections[namesIndex]) : Buffer.alloc(0);
+        this.sections.forEach((section, index) => section.name = this.createReader(names, nameOffsets[index]).readString());
+    }
+
+    private readSegments() {
+        const header = this.createReader(this.data, this.is64Bit ? 0x20 : 0x1C);
+        const segmentOffset = this.is64Bit ? header.readU64() : header.readU32();
+        // Skip section header offset, flags and header size
+        header.skip(this.is64Bit ? 14 : 10);
+        const entrySize = header.readU16();
+        const count = header.readU16();
+
+        for (let index = 0; index < count; index++) {
+            const reader = this.createReader(this.data, segmentOffset + index * entrySize);
+            const type = reader.readU32();
+            if (this.is64Bit) {
+                // Flags precede the offset in 64 bit files
+                reader.skip(4);
+            }
+
+            this.segments.push({
+                type,
+                offset: this.is64Bit ? reader.readU64() : reader.readU32(),
+                virtualAddress: this.is64Bit ? reader.readU64() : reader.readU32(),
+                physicalAddress: this.is64Bit ? reader.readU64() : reader.readU32(),
+                fileSize: this.is64Bit ? reader.readU64() : reader.readU32(),
+                memorySize: this.is64Bit ? reader.readU64() : reader.readU32()
+            });
+        }
+    }
+
+    private readSymbols() {
+        const table = this.sections.find(section => section.type === SHT_SYMTAB);
+        if (!table) {
+            return;
+        }
+
+        const data = this.getRawSectionData(table);
+        const names = this.sections[table.link] ? this.getRawSectionData(this.sections[table.link]) : Buffer.alloc(0);
+        const entrySize = this.is64Bit ? 24 : 16;
+
+        // The first entry is always the undefined symbol
+        for (let offset = entrySize; offset + entrySize <= data.length; offset += entrySize) {
+            const reader = this.createReader(data, offset);
+            const nameOffset = reader.readU32();
+            let value: number;
+            let size: number;
+            let info: number;
+            let other: number;
+            let sectionIndex: number;
+
+            if (this.is64Bit) {
+                info = reader.readU8();
+                other = reader.readU8();
+                sectionIndex = reader.readU16();
+                value = reader.readU64();
+                size = reader.readU64();
+            } else {
+                value = reader.readU32();
+                size = reader.readU32();
+                info = reader.readU8();
+                other = reader.readU8();
+                sectionIndex = reader.readU16();
+            }
+
+            this.symbols.push({
+                name: this.createReader(names, nameOffset).readString(),
+                value,
+                size,
+                type: info & 0xF,
+                binding: info >> 4,
+                visibility: other & 0x3,
+                sectionIndex
+            });
+        }
+    }
+}
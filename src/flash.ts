@@ -0,0 +1,249 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { createHash } from 'crypto';
+import { readFile, writeFile } from 'fs';
+import { tmpdir } from 'os';
+import { extname, join } from 'path';
+import { promisify } from 'util';
+import { ElfFile, SHF_ALLOC, SHT_PROGBITS } from './elf';
+import { toHex } from './svd';
+
+const readFileAsync = promisify(readFile);
+const writeFileAsync = promisify(writeFile);
+
+const HEX_EXTENSIONS = ['.hex', '.ihex', '.ihx'];
+const BIN_EXTENSIONS = ['.bin'];
+const VERIFY_CHUNK_SIZE = 4096;
+
+export type LoadMode = 'download' | 'skip' | 'verify' | 'ifChanged';
+
+export interface ImageArguments {
+    file: string;
+    address?: string | number;
+}
+
+export interface DownloadProgress {
+    section?: string;
+    percent: number;
+}
+
+export interface ImageSegment {
+    address: number;
+    data: Buffer;
+}
+
+/**
+ * An ELF, Intel HEX or binary image as it is written to the target
+ */
+export class FlashImage {
+
+    public segments: ImageSegment[] = [];
+
+    constructor(public file: string, public address?: number) {
+    }
+
+    public get format(): 'elf' | 'hex' | 'bin' {
+        const extension = extname(this.file).toLowerCase();
+        if (HEX_EXTENSIONS.indexOf(extension) !== -1) {
+            return 'hex';
+        }
+        return BIN_EXTENSIONS.indexOf(extension) !== -1 ? 'bin' : 'elf';
+    }
+
+    public async load(): Promise<void> {
+        if (this.format === 'bin') {
+            if (this.address === undefined) {
+                throw new Error(`A load address is required for binary image ${this.file}`);
+            }
+            this.segments = [{ address: this.address, data: await readFileAsync(this.file) }];
+        } else if (this.format === 'hex') {
+            this.segments = parseHex((await readFileAsync(this.file)).toString('ascii'), this.file);
+        } else {
+            this.segments = await readElfSegments(this.file);
+        }
+
+        // The address of ELF and HEX images is an offset, as for the gdb load command
+        if (this.format !== 'bin' && this.address) {
+            this.segments.forEach(segment => segment.address += this.address!);
+        }
+    }
+
+    /**
+     * Hash of the loaded contents, independent of debug information in the file
+     */
+    public getHash(): string {
+        const hash = createHash('sha256');
+        for (const segment of this.segments) {
+            hash.update(toHex(segment.address));
+            hash.update(segment.data);
+        }
+        return hash.digest('hex');
+    }
+
+    /**
+     * Compares the image with target memory, returning the first differing address
+     */
+    public async verify(read: (address: number, length: number) => Promise<Buffer>,
+                        progress?: (percent: number) => void): Promise<number | undefined> {
+        const total = this.segments.reduce((size, segment) => size + segment.data.length, 0);
+        let done = 0;
+
+        for (const segment of this.segments) {
+            for (let offset = 0; offset < segment.data.length; offset += VERIFY_CHUNK_SIZE) {
+                const expected = segment.data.slice(offset, offset + VERIFY_CHUNK_SIZE);
+                const actual = await read(segment.address + offset, expected.length);
+                const index = expected.findIndex((value, position) => actual[position] !== value);
+                if (index !== -1) {
+                    return segment.address + offset + index;
+                }
+
+                done += expected.length;
+                if (progress) {
+                    progress(Math.round(done * 100 / total));
+                }
+            }
+        }
+
+        return undefined;
+    }
+}
+
+/**
+ * Hashes of the images last loaded to each target, kept across sessions
+ */
+export class ImageCache {
+
+    private entries: { [target: string]: { [file: string]: string } } = {};
+
+    constructor(private file = join(tmpdir(), 'cmsis-debug-images.json')) {
+    }
+
+    public async load(): Promise<void> {
+        try {
+            this.entries = JSON.parse((await readFileAsync(this.file)).toString('utf8'));
+        } catch (_error) {
+            // A missing or damaged cache only means images are loaded again
+            this.entries = {};
+        }
+    }
+
+    public get(target: string, file: string): string | undefined {
+        return this.entries[target] ? this.entries[target][file] : undefined;
+    }
+
+    public set(target: string, file: string, hash: string | undefined) {
+        const entry = this.entries[target] || (this.entries[target] = {});
+        if (hash) {
+            entry[file] = hash;
+        } else {
+            delete entry[file];
+        }
+    }
+
+    public async save(): Promise<void> {
+        await writeFileAsync(this.file, JSON.stringify(this.entries));
+    }
+}
+
+/**
+ * Progress of a gdb download from the data of a '+download' status record
+ */
+export function parseDownloadStatus(data: any): DownloadProgress | undefined {
+    // gdb sends an unnamed tuple, which the MI parser collects under 'missing'
+    const info = data['total-sent'] ? data : (data.missing || []).find(Boolean);
+    const total = info ? parseInt(info['total-size'], 10) : 0;
+    if (!info || !info['total-sent'] || !(total > 0)) {
+        return undefined;
+    }
+
+    return {
+        section: info.section,
+        percent: parseInt(info['total-sent'], 10) * 100 / total
+    };
+}
+
+async function readElfSegments(file: string): Promise<ImageSegment[]> {
+    const elf = new ElfFile(file);
+    await elf.load();
+
+    // gdb loads each allocated section with contents at its load address
+    const segments: ImageSegment[] = [];
+    for (const section of elf.getSections()) {
+        if (section.type === SHT_PROGBITS && (section.flags & SHF_ALLOC) && section.size > 0) {
+            segments.push({ address: elf.getLoadAddress(section), data: await elf.getSectionData(section) });
+        }
+    }
+
+    return segments.sort((a, b) => a.address - b.address);
+}
+
+function parseHex(text: string, file: string): ImageSegment[] {
+    const segments: ImageSegment[] = [];
+    let base = 0;
+    let current: { address: number, chunks: Buffer[], size: number } | undefined;
+
+    const flush = () => {
+        if (current) {
+            segments.push({ address: current.address, data: Buffer.concat(current.chunks) });
+            current = undefined;
+        }
+    };
+
+    const lines = text.split(/\r?\n/);
+    for (let index = 0; index < lines.length; index++) {
+        const line = lines[index].trim();
+        if (!line) {
+            continue;
+        }
+
+        const record = line.startsWith(':') ? Buffer.from(line.substring(1), 'hex') : Buffer.alloc(0);
+        if (record.length < 5 || record.length !== record[0] + 5 || record.reduce((sum, value) => sum + value, 0) & 0xFF) {
+            throw new Error(`Invalid record on line ${index + 1} of ${file}`);
+        }
+
+        const data = record.slice(4, record.length - 1);
+        const type = record[3];
+        if (type === 0x00) {
+            const address = base + record.readUInt16BE(1);
+            if (!current || current.address + current.size !== address) {
+                flush();
+                current = { address, chunks: [], size: 0 };
+            }
+            current.chunks.push(data);
+            current.size += data.length;
+        } else if (type === 0x01) {
+            break;
+        } else if (type === 0x02) {
+            base = data.readUInt16BE(0) * 16;
+        } else if (type === 0x04) {
+            base = data.readUInt16BE(0) * 0x10000;
+        }
+        // Start address records don't affect the image
+    }
+
+    flush();
+    return segments;
+}
@@ -0,0 +1,107 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { AbstractRtos, RtosTask, TaskContext } from './abstract-rtos';
+import { EXC_RETURN_THREAD_PSP, hasExtendedFrame, isExcReturn } from './cortex-m';
+
+// Lists holding tasks which aren't ready to run, the suspended and termination lists are optional
+const TASK_LISTS: Array<[string, string]> = [
+    ['xPendingReadyList', 'Ready'],
+    ['xDelayedTaskList1', 'Blocked'],
+    ['xDelayedTaskList2', 'Blocked'],
+    ['xSuspendedTaskList', 'Suspended'],
+    ['xTasksWaitingTermination', 'Deleted']
+];
+
+export class FreeRtos extends AbstractRtos {
+
+    public readonly name = 'FreeRTOS';
+
+    protected nameLength: number | undefined;
+
+    public async getTasks(): Promise<RtosTask[]> {
+        const current = await this.evaluate('pxCurrentTCB');
+        const tasks: RtosTask[] = [];
+
+        // Walk the ready lists from the highest priority down
+        const priorities = await this.evaluate('sizeof(pxReadyTasksLists) / sizeof(pxReadyTasksLists[0])');
+        for (let priority = priorities - 1; priority >= 0; priority--) {
+            tasks.push(...await this.getListTasks(`pxReadyTasksLists[${priority}]`, 'Ready', current));
+        }
+
+        for (const [list, state] of TASK_LISTS) {
+            if (await this.tryEvaluate(`&${list}`) !== undefined) {
+                tasks.push(...await this.getListTasks(list, state, current));
+            }
+        }
+
+        return tasks;
+    }
+
+    public async getTaskContext(task: RtosTask): Promise<TaskContext> {
+        const sp = await this.evaluate(`((TCB_t *)${task.id})->pxTopOfStack`);
+        const words = await this.readWords(sp, 9);
+
+        // Ports with a floating-point unit save EXC_RETURN after r4-r11, followed by s16-s31 for extended frames
+        if (isExcReturn(words[8])) {
+            const excReturn = words[8];
+            const frameAddress = sp + 9 * 4 + (hasExtendedFrame(excReturn) ? 16 * 4 : 0);
+            return this.unstackContext(words.slice(0, 8), frameAddress, excReturn);
+        }
+
+        return this.unstackContext(words.slice(0, 8), sp + 8 * 4, EXC_RETURN_THREAD_PSP);
+    }
+
+    protected async getListTasks(list: string, state: string, current: number): Promise<RtosTask[]> {
+        // Lists are circular, terminated by the xListEnd marker
+        const end = await this.evaluate(`&${list}.xListEnd`);
+        const first = await this.evaluate(`${list}.xListEnd.pxNext`);
+        const items = await this.walkList(first, item => `((ListItem_t *)${item})->pxNext`, end);
+        const tasks: RtosTask[] = [];
+
+        for (const item of items) {
+            const tcb = await this.evaluate(`((ListItem_t *)${item})->pvOwner`);
+            tasks.push(await this.getTask(tcb, state, current));
+        }
+
+        return tasks;
+    }
+
+    protected async getTask(tcb: number, state: string, current: number): Promise<RtosTask> {
+        if (this.nameLength === undefined) {
+            this.nameLength = await this.evaluate('sizeof(((TCB_t *)0)->pcTaskName)');
+        }
+
+        const nameAddress = await this.evaluate(`&((TCB_t *)${tcb})->pcTaskName`);
+
+        return {
+            id: tcb,
+            name: await this.readString(nameAddress, this.nameLength),
+            state: tcb === current ? 'Running' : state,
+            priority: await this.evaluate(`((TCB_t *)${tcb})->uxPriority`),
+            current: tcb === current
+        };
+    }
+}
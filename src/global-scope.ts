@@ -0,0 +1,76 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { SymbolInformation } from './symbols';
+
+const UNKNOWN_GROUP = '<unknown>';
+
+export interface GlobalScopeConfiguration {
+    groupBy?: 'none' | 'file' | 'section';
+    filter?: string;
+}
+
+export interface SymbolGroup {
+    name: string;
+    symbols: SymbolInformation[];
+}
+
+/**
+ * Symbols with names matching a case insensitive regular expression
+ */
+export function filterSymbols(symbols: SymbolInformation[], filter?: string): SymbolInformation[] {
+    if (!filter) {
+        return symbols;
+    }
+
+    const pattern = new RegExp(filter, 'i');
+    return symbols.filter(symbol => pattern.test(symbol.name));
+}
+
+/**
+ * Symbols grouped by the file defining them or the section holding them, ordered by group name
+ */
+export function groupSymbols(symbols: SymbolInformation[], groupBy: 'file' | 'section'): SymbolGroup[] {
+    const groups = new Map<string, SymbolInformation[]>();
+
+    for (const symbol of symbols) {
+        const name = (groupBy === 'file' ? symbol.file : symbol.section) || UNKNOWN_GROUP;
+        const group = groups.get(name) || [];
+        group.push(symbol);
+        groups.set(name, group);
+    }
+
+    return Array.from(groups.entries())
+        .map(([name, grouped]) => ({ name, symbols: grouped }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Items in the range requested by a paged variables request, everything when no range is given
+ */
+export function pageItems<T>(items: T[], start?: number, count?: number): T[] {
+    const first = start || 0;
+    return items.slice(first, count ? first + count : undefined);
+}
@@ -0,0 +1,66 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { GDBBackend } from 'cdt-gdb-adapter/dist/GDBBackend';
+import { MemoryAccess } from './rtt';
+import * as mi from './mi';
+
+const FPB_CTRL = 0xE0002000;
+const DWT_CTRL = 0xE0001000;
+
+const HARDWARE_BREAKPOINT_TYPES = ['hw breakpoint'];
+const HARDWARE_WATCHPOINT_TYPES = ['hw watchpoint', 'read watchpoint', 'acc watchpoint'];
+
+export interface HardwareUnits {
+    breakpoints: number;
+    watchpoints: number;
+}
+
+/**
+ * Read the number of FPB code comparators and DWT comparators implemented by the core
+ */
+export async function detectHardwareUnits(memory: MemoryAccess): Promise<HardwareUnits> {
+    const fpbCtrl = (await memory.read(FPB_CTRL, 4)).readUInt32LE(0);
+    const dwtCtrl = (await memory.read(DWT_CTRL, 4)).readUInt32LE(0);
+
+    return {
+        // NUM_CODE is split across bits [14:12] and [7:4]
+        breakpoints: ((fpbCtrl >> 8) & 0x70) | ((fpbCtrl >> 4) & 0xF),
+        watchpoints: dwtCtrl >>> 28
+    };
+}
+
+/**
+ * Count the hardware units used by enabled breakpoints and watchpoints in gdb
+ */
+export async function getHardwareUsage(gdb: GDBBackend): Promise<HardwareUnits> {
+    const result = await mi.sendBreakList(gdb);
+    const enabled = result.BreakpointTable.body.filter(breakpoint => breakpoint.enabled === 'y');
+
+    return {
+        breakpoints: enabled.filter(breakpoint => HARDWARE_BREAKPOINT_TYPES.indexOf(breakpoint.type) !== -1).length,
+        watchpoints: enabled.filter(breakpoint => HARDWARE_WATCHPOINT_TYPES.indexOf(breakpoint.type) !== -1).length
+    };
+}
@@ -0,0 +1,197 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { EventEmitter } from 'events';
+
+export interface InstrumentationPacket {
+    type: 'instrumentation';
+    port: number;
+    data: Buffer;
+}
+
+export interface HardwarePacket {
+    type: 'hardware';
+    // Discriminator identifying the DWT source, 2 for PC samples
+    id: number;
+    value: number;
+    size: number;
+}
+
+export interface TimestampPacket {
+    type: 'timestamp';
+    value: number;
+    // Relationship of the timestamp to the packets it follows, 0 when in sync
+    control: number;
+}
+
+export interface GlobalTimestampPacket {
+    type: 'globalTimestamp';
+    value: number;
+    high: boolean;
+}
+
+export interface OverflowPacket {
+    type: 'overflow';
+}
+
+export interface SyncPacket {
+    type: 'sync';
+}
+
+export type ItmPacket = InstrumentationPacket | HardwarePacket | TimestampPacket | GlobalTimestampPacket | OverflowPacket | SyncPacket;
+
+export const HARDWARE_EVENT_COUNTER = 0;
+export const HARDWARE_EXCEPTION_TRACE = 1;
+export const HARDWARE_PC_SAMPLE = 2;
+
+const OVERFLOW_HEADER = 0x70;
+const GLOBAL_TIMESTAMP_1 = 0x94;
+const GLOBAL_TIMESTAMP_2 = 0xB4;
+const SYNC_ZERO_BYTES = 5;
+const MAX_CONTINUATION_BYTES = 4;
+const MAX_GLOBAL_TIMESTAMP_2_BYTES = 6;
+
+/**
+ * Decodes a raw ITM byte stream, emitting a 'packet' event for each complete packet
+ */
+export class ItmDecoder extends EventEmitter {
+
+    protected pending = Buffer.alloc(0);
+    protected zeros = 0;
+
+    public push(chunk: Buffer) {
+        const data = this.pending.length ? Buffer.concat([this.pending, chunk]) : chunk;
+        let offset = 0;
+
+        while (offset < data.length) {
+            const length = this.decode(data, offset);
+            if (length === 0) {
+                // Wait for the rest of the packet
+                break;
+            }
+            offset += length;
+        }
+
+        this.pending = data.slice(offset);
+    }
+
+    /**
+     * Decode the packet at the offset, returning its length or 0 when incomplete
+     */
+    protected decode(data: Buffer, offset: number): number {
+        const header = data[offset];
+
+        // Synchronisation is at least 47 zero bits followed by a one
+        if (header === 0) {
+            this.zeros++;
+            return 1;
+        }
+        if (header === 0x80 && this.zeros >= SYNC_ZERO_BYTES) {
+            this.zeros = 0;
+            this.emitPacket({ type: 'sync' });
+            return 1;
+        }
+        this.zeros = 0;
+
+        if (header === OVERFLOW_HEADER) {
+            this.emitPacket({ type: 'overflow' });
+            return 1;
+        }
+
+        // Source packets carry 1, 2 or 4 bytes of payload
+        const size = header & 0x03;
+        if (size) {
+            const payload = size === 3 ? 4 : size;
+            if (offset + 1 + payload > data.length) {
+                return 0;
+            }
+
+            const value = data.readUIntLE(offset + 1, payload);
+            if (header & 0x04) {
+                this.emitPacket({ type: 'hardware', id: header >> 3, value, size: payload });
+            } else {
+                this.emitPacket({ type: 'instrumentation', port: header >> 3, data: data.slice(offset + 1, offset + 1 + payload) });
+            }
+            return 1 + payload;
+        }
+
+        if ((header & 0x0F) === 0) {
+            // Local timestamp format 2 holds the value in the header
+            if ((header & 0x80) === 0) {
+                this.emitPacket({ type: 'timestamp', value: (header >> 4) & 0x07, control: 0 });
+                return 1;
+            }
+
+            if ((header & 0xC0) === 0xC0) {
+                const timestamp = this.decodeContinuation(data, offset + 1);
+                if (!timestamp) {
+                    return 0;
+                }
+                this.emitPacket({ type: 'timestamp', value: timestamp.value, control: (header >> 4) & 0x03 });
+                return 1 + timestamp.length;
+            }
+
+            return 1;
+        }
+
+        if (header === GLOBAL_TIMESTAMP_1 || header === GLOBAL_TIMESTAMP_2) {
+            const maxLength = header === GLOBAL_TIMESTAMP_2 ? MAX_GLOBAL_TIMESTAMP_2_BYTES : MAX_CONTINUATION_BYTES;
+            const timestamp = this.decodeContinuation(data, offset + 1, maxLength);
+            if (!timestamp) {
+                return 0;
+            }
+            this.emitPacket({ type: 'globalTimestamp', value: timestamp.value, high: header === GLOBAL_TIMESTAMP_2 });
+            return 1 + timestamp.length;
+        }
+
+        // Extension packets continue while bit 7 is set, other reserved headers are skipped
+        if ((header & 0x0B) === 0x08 && (header & 0x80)) {
+            const extension = this.decodeContinuation(data, offset + 1);
+            return extension ? 1 + extension.length : 0;
+        }
+
+        return 1;
+    }
+
+    protected decodeContinuation(data: Buffer, offset: number, maxLength = MAX_CONTINUATION_BYTES)
+        : { value: number, length: number } | undefined {
+        let value = 0;
+
+        for (let i = 0; offset + i < data.length; i++) {
+            const byte = data[offset + i];
+            value += (byte & 0x7F) * Math.pow(2, 7 * i);
+            // Stop at the last byte, or after the maximum length to resynchronise on a corrupt stream
+            if ((byte & 0x80) === 0 || i + 1 >= maxLength) {
+                return { value, length: i + 1 };
+            }
+        }
+
+        return undefined;
+    }
+
+    protected emitPacket(packet: ItmPacket) {
+        this.emit('packet', packet);
+    }
+}
@@ -0,0 +1,137 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { platform } from 'os';
+import { AbstractServer, ResetMode, RttServerChannels, SwoServerSource } from './abstract-server';
+import { SwoConfiguration } from './swo';
+import { toHex } from './svd';
+
+const DEFAULT_JLINK = platform() !== 'win32' ? 'JLinkGDBServerCL' : 'JLinkGDBServerCL.exe';
+const LAUNCH_REGEX = /Waiting for GDB connection/;
+const ERROR_REGEX = /(Could not connect to J-Link|Connecting to J-Link failed|Could not connect to target|^ERROR: )/m;
+const SERIAL_REGEX = /S\/N: ?(\d+)/;
+// Reset types of the J-Link reset command
+const RESET_TYPES: { [mode: string]: number } = {
+    hardware: 2,
+    system: 0,
+    core: 1
+};
+
+export class JlinkServer extends AbstractServer {
+
+    protected defaultCommand = DEFAULT_JLINK;
+    protected serialRegex = SERIAL_REGEX;
+    protected rttPort: number | undefined;
+    protected swoPort: number | undefined;
+
+    public resolveResetCommands(mode?: ResetMode): string[] {
+        const type = mode ? RESET_TYPES[mode] : undefined;
+        return [type !== undefined ? `reset ${type}` : 'reset', 'halt'];
+    }
+
+    public resolveChipEraseCommands(): string[] | undefined {
+        return ['flash erase'];
+    }
+
+    public async resolveRttChannels(address: number, searchSize: number, channels: number[]): Promise<RttServerChannels | undefined> {
+        // J-Link serves channel 0 on its RTT telnet port
+        if (!this.rttPort || channels.indexOf(0) === -1) {
+            return undefined;
+        }
+
+        return {
+            commands: [searchSize > 0 ? `exec SetRTTSearchRanges ${toHex(address)} ${toHex(searchSize)}` : `exec SetRTTAddr ${toHex(address)}`],
+            ports: new Map([[0, this.rttPort]])
+        };
+    }
+
+    public async resolveSwoSource(config: SwoConfiguration): Promise<SwoServerSource | undefined> {
+        if (!this.swoPort) {
+            return undefined;
+        }
+
+        const mask = (config.ports || [0]).reduce((value, port) => value | (1 << port), 0);
+        return {
+            commands: [`SWO EnableTarget ${config.cpuFrequency} ${config.swoFrequency} ${toHex(mask)} 0`],
+            port: this.swoPort
+        };
+    }
+
+    protected async resolveServerArguments(serverArguments?: string[]): Promise<string[]> {
+        if (!serverArguments) {
+            serverArguments = [];
+        }
+
+        serverArguments = [
+            ...serverArguments,
+            '-port',
+            this.port.toString()
+        ];
+
+        // J-Link also opens SWO and telnet ports which default to the ports above the gdb port
+        this.swoPort = await this.portScanner.findFreePort(this.port + 1);
+        if (this.swoPort) {
+            serverArguments.push('-swoport', this.swoPort.toString());
+        }
+
+        const telnetPort = await this.portScanner.findFreePort((this.swoPort || this.port) + 1);
+        if (telnetPort) {
+            serverArguments.push('-telnetport', telnetPort.toString());
+        }
+
+        if (this.args.rtt) {
+            this.rttPort = await this.portScanner.findFreePort((telnetPort || this.swoPort || this.port) + 1);
+            if (this.rttPort) {
+                serverArguments.push('-rtttelnetport', this.rttPort.toString());
+            }
+        }
+
+        return serverArguments;
+    }
+
+    protected resolveSerialArgument(serverArguments: string[]): string | undefined {
+        // The probe is selected with '-select USB=<serial>' or '-USB <serial>'
+        for (let index = 0; index < serverArguments.length - 1; index++) {
+            const name = serverArguments[index].toLowerCase();
+            const value = serverArguments[index + 1];
+            if (name === '-select' && value.toUpperCase().startsWith('USB=')) {
+                return value.substring(4);
+            }
+            if (name === '-usb') {
+                return value;
+            }
+        }
+
+        return undefined;
+    }
+
+    protected serverStarted(data: string): boolean {
+        return LAUNCH_REGEX.test(data);
+    }
+
+    protected serverError(data: string): boolean {
+        return ERROR_REGEX.test(data);
+    }
+}
@@ -0,0 +1,98 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { CmsisBackend } from './cmsis-backend';
+import { MemoryAccess } from './rtt';
+import * as mi from './mi';
+
+/**
+ * A second gdb connection to the server used to access memory while the core runs
+ */
+export class LiveMemory implements MemoryAccess {
+
+    protected gdb = new CmsisBackend();
+    protected connected = false;
+
+    public async connect(gdb: string | undefined, program: string, remote: string): Promise<void> {
+        await this.gdb.spawn({ gdb, program, gdbArguments: ['-q', program] });
+
+        try {
+            await mi.sendTargetSelectRemote(this.gdb, remote);
+        } catch (error) {
+            // Servers accepting a single connection refuse the second one
+            await this.gdb.sendGDBExit().catch(() => undefined);
+            throw error;
+        }
+
+        this.connected = true;
+    }
+
+    /**
+     * Connects again once the server restarted, gdb itself keeps running
+     */
+    public async reconnect(remote: string): Promise<void> {
+        this.connected = false;
+        await mi.sendTargetSelectRemote(this.gdb, remote);
+        this.connected = true;
+    }
+
+    /**
+     * Replaces the symbols of the program, e.g. after it was rebuilt
+     */
+    public async loadSymbols(program: string): Promise<void> {
+        await this.gdb.sendFileExecAndSymbols(program);
+    }
+
+    public isAccessible(): boolean {
+        return this.connected;
+    }
+
+    public read(address: number, length: number): Promise<Buffer> {
+        return mi.readMemory(this.gdb, address, length);
+    }
+
+    public write(address: number, data: Buffer): Promise<void> {
+        return mi.writeMemory(this.gdb, address, data);
+    }
+
+    public async evaluate(expression: string): Promise<string> {
+        const result = await mi.sendDataEvaluateExpression(this.gdb, expression);
+        return result.value || '';
+    }
+
+    public async disconnect(): Promise<void> {
+        if (!this.connected) {
+            return;
+        }
+
+        this.connected = false;
+        try {
+            await mi.sendTargetDetach(this.gdb);
+            await this.gdb.sendGDBExit();
+        } catch (e) {
+            // The connection may already have been closed by the server
+        }
+    }
+}
@@ -0,0 +1,177 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { EventEmitter } from 'events';
+import { MemoryAccess } from './rtt';
+import { toHex } from './svd';
+
+const DEFAULT_SAMPLE_INTERVAL = 100;
+const MAX_WATCH_SIZE = 256;
+const ADDRESS_REGEX = /^(?:\((.+)\)\s)?(0x[0-9a-f]+)/i;
+const UNSIGNED_REGEX = /\bunsigned\b|^(u|uint)\d|^uint|^size_t$|^_Bool$|^bool$/;
+
+export interface LiveWatchConfiguration {
+    // Expressions watched from the start of the session
+    expressions?: string[];
+    // Milliseconds between samples
+    interval?: number;
+}
+
+// Arguments of the request changing the watched expressions
+export interface LiveWatchArguments {
+    add?: string[];
+    remove?: string[];
+    interval?: number;
+}
+
+export interface LiveWatchExpression {
+    expression: string;
+    address: number;
+    size: number;
+    type: string;
+    value?: string;
+}
+
+/**
+ * Resolves an expression to the memory holding its value, evaluating with the symbols of the program
+ */
+export async function resolveLiveWatch(expression: string, evaluate: (expression: string) => Promise<string>): Promise<LiveWatchExpression> {
+    // The address is printed with the pointer type, e.g. "(uint32_t *) 0x20000010 <counter>"
+    const match = ADDRESS_REGEX.exec((await evaluate(`&(${expression})`)).trim());
+    const size = parseInt(await evaluate(`sizeof(${expression})`), 10);
+    if (!match || isNaN(size)) {
+        throw new Error(`Unable to resolve the address of '${expression}'`);
+    }
+    if (size <= 0 || size > MAX_WATCH_SIZE) {
+        throw new Error(`'${expression}' is too large to watch live (${size} bytes)`);
+    }
+
+    return {
+        expression,
+        address: parseInt(match[2], 16),
+        size,
+        type: match[1] ? getPointedType(match[1]) : ''
+    };
+}
+
+function getPointedType(pointerType: string): string {
+    // Pointers to arrays and functions name the pointer inside the type, e.g. "int (*)[4]"
+    if (pointerType.includes('(*)')) {
+        return pointerType.replace(' (*)', ' ').replace('(*)', '');
+    }
+    return pointerType.replace(/\s*\*$/, '');
+}
+
+export function formatLiveValue(data: Buffer, type: string): string {
+    const size = data.length;
+
+    if (type.endsWith('*')) {
+        return toHex(data.readUIntLE(0, Math.min(size, 6)), size * 8);
+    }
+    if (type === 'float' && size === 4) {
+        return data.readFloatLE(0).toString();
+    }
+    if (type === 'double' && size === 8) {
+        return data.readDoubleLE(0).toString();
+    }
+    if ((type === '_Bool' || type === 'bool') && size === 1) {
+        return data[0] ? 'true' : 'false';
+    }
+    if (size <= 4 && type && !type.includes('[') && !/^(struct|union)\b/.test(type)) {
+        return (UNSIGNED_REGEX.test(type) ? data.readUIntLE(0, size) : data.readIntLE(0, size)).toString();
+    }
+    if (size === 8 && type && !type.includes('[')) {
+        // Values beyond 53 bits lose precision as numbers
+        const high = UNSIGNED_REGEX.test(type) ? data.readUInt32LE(4) : data.readInt32LE(4);
+        const value = high * 0x100000000 + data.readUInt32LE(0);
+        return Number.isSafeInteger(value) ? value.toString() : `0x${Buffer.from(data).reverse().toString('hex')}`;
+    }
+
+    // Aggregates are shown as their bytes
+    return `{${Array.from(data).map(value => toHex(value, 8)).join(', ')}}`;
+}
+
+/**
+ * Samples watched expressions while the target runs, emitting 'change' with the expressions whose values changed
+ */
+export class LiveWatch extends EventEmitter {
+
+    protected watches: LiveWatchExpression[] = [];
+    protected timer?: NodeJS.Timer;
+    protected sampling = false;
+
+    constructor(protected memory: MemoryAccess) {
+        super();
+    }
+
+    public getWatches(): LiveWatchExpression[] {
+        return this.watches;
+    }
+
+    public add(watch: LiveWatchExpression) {
+        this.remove(watch.expression);
+        this.watches.push(watch);
+    }
+
+    public remove(expression: string) {
+        this.watches = this.watches.filter(watch => watch.expression !== expression);
+    }
+
+    public start(interval = DEFAULT_SAMPLE_INTERVAL) {
+        this.stop();
+        this.timer = setInterval(() => this.sample().catch(error => this.emit('error', error)), interval);
+    }
+
+    public stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    public async sample(): Promise<void> {
+        if (this.sampling || !this.memory.isAccessible()) {
+            return;
+        }
+
+        this.sampling = true;
+        try {
+            const changed: LiveWatchExpression[] = [];
+            for (const watch of this.watches) {
+                const value = formatLiveValue(await this.memory.read(watch.address, watch.size), watch.type);
+                if (value !== watch.value) {
+                    watch.value = value;
+                    changed.push(watch);
+                }
+            }
+
+            if (changed.length > 0) {
+                this.emit('change', changed);
+            }
+        } finally {
+            this.sampling = false;
+        }
+    }
+}
@@ -0,0 +1,131 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { PackMemory } from './cmsis-pack';
+import { SectionInformation } from './symbols';
+import { SvdPeripheral } from './svd';
+
+export interface MemoryRegion {
+    name: string;
+    start: number;
+    size: number;
+    writable: boolean;
+}
+
+// Private peripheral bus holding the system control and debug registers
+const PPB_START = 0xE0000000;
+const PPB_SIZE = 0x100000;
+
+/**
+ * Regions of the target address space which can be accessed without faulting, everything is accessible when empty
+ */
+export class MemoryMap {
+
+    protected regions: MemoryRegion[] = [];
+
+    public get isEmpty(): boolean {
+        return this.regions.length === 0;
+    }
+
+    public getRegions(): MemoryRegion[] {
+        return this.regions;
+    }
+
+    public addRegion(region: MemoryRegion) {
+        if (region.size > 0) {
+            this.regions.push(region);
+        }
+    }
+
+    public addSections(sections: SectionInformation[]) {
+        // Only allocated sections occupy target memory
+        sections.filter(section => section.flags.indexOf('ALLOC') !== -1).forEach(section => this.addRegion({
+            name: section.name,
+            start: section.address,
+            size: section.size,
+            writable: section.flags.indexOf('READONLY') === -1
+        }));
+    }
+
+    public addPeripherals(peripherals: SvdPeripheral[]) {
+        for (const peripheral of peripherals) {
+            if (peripheral.addressBlocks.length) {
+                peripheral.addressBlocks.forEach(block => this.addRegion({
+                    name: peripheral.name,
+                    start: peripheral.baseAddress + block.offset,
+                    size: block.size,
+                    writable: true
+                }));
+            } else {
+                // Without address blocks the registers span the peripheral
+                const end = Math.max(0, ...peripheral.registers.map(reg => reg.addressOffset + reg.size / 8));
+                this.addRegion({ name: peripheral.name, start: peripheral.baseAddress, size: end, writable: true });
+            }
+        }
+    }
+
+    public addMemories(memories: PackMemory[]) {
+        memories.forEach(memory => this.addRegion({
+            name: memory.name,
+            start: memory.start,
+            size: memory.size,
+            writable: memory.access.indexOf('w') !== -1
+        }));
+    }
+
+    public addSystemRegion() {
+        this.addRegion({ name: 'PPB', start: PPB_START, size: PPB_SIZE, writable: true });
+    }
+
+    public findRegion(address: number): MemoryRegion | undefined {
+        return this.regions.find(region => address >= region.start && address < region.start + region.size);
+    }
+
+    /**
+     * Number of bytes from the address which can be accessed, stopping at the first unmapped or read-only byte
+     */
+    public getAccessibleLength(address: number, length: number, write = false): number {
+        if (this.isEmpty) {
+            return length;
+        }
+
+        const end = address + length;
+        let current = address;
+
+        while (current < end) {
+            // Regions may overlap, continue from the furthest reaching one
+            const regionEnd = this.regions
+                .filter(region => current >= region.start && current < region.start + region.size && (!write || region.writable))
+                .reduce((furthest, region) => Math.max(furthest, region.start + region.size), current);
+
+            if (regionEnd === current) {
+                break;
+            }
+            current = Math.min(regionEnd, end);
+        }
+
+        return current - address;
+    }
+}
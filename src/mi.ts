@@ -23,16 +23,19 @@
 * SOFTWARE.
 */
 
-import { MIFrameInfo } from 'cdt-gdb-adapter/dist/mi';
+import {
+    MIBreakpointInfo, MIFrameInfo, MIBreakInsertResponse, sendDataReadMemoryBytes, sendDataWriteMemoryBytes
+} from 'cdt-gdb-adapter/dist/mi';
 import { GDBBackend } from 'cdt-gdb-adapter/dist/GDBBackend';
+import { toHex } from './svd';
 
 export function sendTargetAsyncOn(gdb: GDBBackend) {
     const set = 'target-async on';
     return gdb.sendGDBSet(set);
 }
 
-export function sendMonitorResetHalt(gdb: GDBBackend) {
-    const command = '-interpreter-exec console "monitor reset halt"';
+export function sendMonitorCommand(gdb: GDBBackend, monitorCommand: string) {
+    const command = `-interpreter-exec console ${gdb.standardEscape(`monitor ${monitorCommand}`)}`;
     return gdb.sendCommand(command);
 }
 
@@ -46,6 +49,17 @@ export function sendTargetDownload(gdb: GDBBackend) {
     return gdb.sendCommand(command);
 }
 
+export function sendLoad(gdb: GDBBackend, file: string, offset?: number) {
+    const args = `${quoteFile(file)}${offset ? ` ${toHex(offset)}` : ''}`;
+    const command = `-interpreter-exec console ${gdb.standardEscape(`load ${args}`)}`;
+    return gdb.sendCommand(command);
+}
+
+export function sendAddSymbolFile(gdb: GDBBackend, file: string) {
+    const command = `-interpreter-exec console ${gdb.standardEscape(`add-symbol-file ${quoteFile(file)}`)}`;
+    return gdb.sendCommand(command);
+}
+
 export function sendExecInterrupt(gdb: GDBBackend, threadId?: number) {
     let command = '-exec-interrupt';
     if (threadId) {
@@ -54,6 +68,22 @@ export function sendExecInterrupt(gdb: GDBBackend, threadId?: number) {
     return gdb.sendCommand(command);
 }
 
+export function sendExecNextInstruction(gdb: GDBBackend, threadId?: number) {
+    let command = '-exec-next-instruction';
+    if (threadId) {
+        command += ` --thread ${threadId}`;
+    }
+    return gdb.sendCommand(command);
+}
+
+export function sendExecStepInstruction(gdb: GDBBackend, threadId?: number) {
+    let command = '-exec-step-instruction';
+    if (threadId) {
+        command += ` --thread ${threadId}`;
+    }
+    return gdb.sendCommand(command);
+}
+
 export function sendStackInfoFrame(gdb: GDBBackend, threadId: number, frameId: number): Promise<{frame: MIFrameInfo}> {
     const command = `-stack-info-frame --thread ${threadId} --frame ${frameId}`;
     return gdb.sendCommand(command);
@@ -61,9 +91,83 @@ export function sendStackInfoFrame(gdb: GDBBackend, threadId: number, frameId: n
 
 export function sendUserInput(gdb: GDBBackend, command: string): Promise<any> {
     if (!command.startsWith('-')) {
-        command = `interpreter-exec console "${command}"`;
+        command = `interpreter-exec console ${gdb.standardEscape(command)}`;
+    }
+
+    return gdb.sendCommand(command);
+}
+
+export function sendComplete(gdb: GDBBackend, text: string): Promise<{matches: string[]}> {
+    const command = `-complete ${gdb.standardEscape(text)}`;
+    return gdb.sendCommand(command);
+}
+
+export function sendDataListRegisterNames(gdb: GDBBackend): Promise<{'register-names': string[]}> {
+    const command = '-data-list-register-names';
+    return gdb.sendCommand(command);
+}
+
+export function sendDataListRegisterValues(gdb: GDBBackend, params: {
+    format: string;
+    threadId?: number;
+    frameId?: number;
+    registers?: number[];
+}): Promise<{'register-values': Array<{number: string, value: string}>}> {
+    let command = '-data-list-register-values';
+    if (params.threadId !== undefined) {
+        command += ` --thread ${params.threadId}`;
+    }
+    if (params.frameId !== undefined) {
+        command += ` --frame ${params.frameId}`;
+    }
+    command += ` ${params.format}`;
+    if (params.registers) {
+        command += ` ${params.registers.join(' ')}`;
+    }
+    return gdb.sendCommand(command);
+}
+
+/**
+ * Replaces the cdt-gdb-adapter command, which doesn't escape quotes in the expression
+ */
+export function sendDataEvaluateExpression(gdb: GDBBackend, expression: string): Promise<{value?: string}> {
+    return sendDataEvaluateExpressionInFrame(gdb, expression);
+}
+
+export function sendDataEvaluateExpressionInFrame(gdb: GDBBackend, expression: string, threadId?: number, frameId?: number)
+    : Promise<{value?: string}> {
+    let command = '-data-evaluate-expression';
+    if (threadId !== undefined) {
+        command += ` --thread ${threadId}`;
+    }
+    if (frameId !== undefined) {
+        command += ` --frame ${frameId}`;
     }
+    command += ` ${gdb.standardEscape(expression)}`;
+    return gdb.sendCommand(command);
+}
+
+export async function sendBreakAddressInsert(gdb: GDBBackend, address: number, hardware: boolean): Promise<MIBreakpointInfo> {
+    const command = `-break-insert ${hardware ? '-h ' : ''}*${toHex(address)}`;
+    const result: MIBreakInsertResponse = await gdb.sendCommand(command);
+    // Addresses only ever resolve to a single location
+    return Array.isArray(result.bkpt) ? result.bkpt[0] : result.bkpt;
+}
+
+export async function sendBreakWatch(gdb: GDBBackend, expression: string, accessType?: string): Promise<{number: string}> {
+    const option = accessType === 'read' ? '-r ' : accessType === 'readWrite' ? '-a ' : '';
+    const command = `-break-watch ${option}${gdb.standardEscape(expression)}`;
+    const result = await gdb.sendCommand<any>(command);
+    return result.wpt || result['hw-rwpt'] || result['hw-awpt'];
+}
 
+export function sendBreakCondition(gdb: GDBBackend, breakpoint: string, condition: string) {
+    const command = `-break-condition ${breakpoint} ${gdb.standardEscape(condition)}`;
+    return gdb.sendCommand(command);
+}
+
+export function sendBreakAfter(gdb: GDBBackend, breakpoint: string, count: number) {
+    const command = `-break-after ${breakpoint} ${count}`;
     return gdb.sendCommand(command);
 }
 
@@ -72,4 +176,23 @@ export function sendTargetDetach(gdb: GDBBackend) {
     return gdb.sendCommand(command);
 }
 
+export async function readMemory(gdb: GDBBackend, address: number, length: number): Promise<Buffer> {
+    const result = await sendDataReadMemoryBytes(gdb, toHex(address), length);
+    const data = Buffer.from(result.memory.map(block => block.contents).join(''), 'hex');
+    if (data.length < length) {
+        throw new Error(`Unable to read ${length} bytes at ${toHex(address)}`);
+    }
+
+    return data;
+}
+
+export async function writeMemory(gdb: GDBBackend, address: number, data: Buffer): Promise<void> {
+    await sendDataWriteMemoryBytes(gdb, toHex(address), data.toString('hex'));
+}
+
+function quoteFile(file: string): string {
+    // gdb splits the arguments like a shell, which treats backslashes as escapes
+    return `"${file.replace(/\\/g, '/')}"`;
+}
+
 export * from 'cdt-gdb-adapter/dist/mi';
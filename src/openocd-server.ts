@@ -0,0 +1,145 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { AbstractServer, ResetMode, RttServerChannels, SwoServerSource } from './abstract-server';
+import { SwoConfiguration } from './swo';
+
+const LAUNCH_REGEX = /Listening on port \d+ for gdb connections/;
+const ERROR_REGEX = /^Error: (open failed|unable to open|couldn't bind|Can't find|No (device|J-Link) found|init mode failed)/m;
+// Adapter drivers report the serial number in different forms
+const SERIAL_REGEX = /(?:Serial# = |serial=|S\/N: ?)(\w+)/;
+const SERIAL_COMMAND_REGEX = /^(?:adapter serial|hla_serial|cmsis_dap_serial|jlink serial|ftdi serial|ftdi_serial) +"?([^"\s;]+)/;
+// Erases every flash bank, 'flash list' holding one entry per bank
+// OpenOCD halts the target whenever gdb attaches, only the first connection should
+const GDB_ATTACH_EVENT = '$_TARGETNAME configure -event gdb-attach {if {[incr ::cmsis_gdb_attached] == 1} {halt 1000}}';
+const ERASE_BANKS_COMMAND = 'for {set bank 0} {$bank < [llength [flash list]]} {incr bank} {flash erase_sector $bank 0 last}';
+// Selects the reset used by following reset commands
+const RESET_CONFIGS: { [mode: string]: string } = {
+    hardware: 'reset_config srst_only',
+    system: 'cortex_m reset_config sysresetreq',
+    core: 'cortex_m reset_config vectreset'
+};
+
+export class OpenocdServer extends AbstractServer {
+
+    protected defaultCommand = 'openocd';
+    protected serialRegex = SERIAL_REGEX;
+
+    public resolveGdbPort(port: number): number {
+        if (this.args.gdbCore && this.args.gdbCore > 0) {
+            // OpenOCD starts each target on a subsequent port
+            port += this.args.gdbCore;
+        }
+
+        return port;
+    }
+
+    public resolveCorePort(core: number): number | undefined {
+        return this.port + core;
+    }
+
+    public resolveResetCommands(mode?: ResetMode): string[] {
+        const config = mode ? RESET_CONFIGS[mode] : undefined;
+        return config ? [config, 'reset halt'] : ['reset halt'];
+    }
+
+    public supportsSecondConnection(): boolean {
+        return this.acceptsSecondConnection();
+    }
+
+    public resolveChipEraseCommands(): string[] | undefined {
+        return [ERASE_BANKS_COMMAND];
+    }
+
+    public resolveRttChannels(address: number, searchSize: number, channels: number[]): Promise<RttServerChannels | undefined> {
+        return this.resolveRttServerChannels(address, searchSize, channels);
+    }
+
+    public async resolveSwoSource(config: SwoConfiguration): Promise<SwoServerSource | undefined> {
+        const port = await this.portScanner.findFreePort(this.port + 1);
+        if (!port) {
+            return undefined;
+        }
+
+        return {
+            commands: [`tpiu config internal :${port} uart off ${config.cpuFrequency} ${config.swoFrequency}`],
+            port
+        };
+    }
+
+    protected async resolveServerArguments(serverArguments?: string[]): Promise<string[]> {
+        if (!serverArguments) {
+            serverArguments = [];
+        }
+
+        // Port configuration goes first so it is applied before any user supplied 'init'
+        const telnetPort = await this.portScanner.findFreePort(4444);
+
+        serverArguments = [
+            '-c',
+            `gdb_port ${this.port}`,
+            '-c',
+            `telnet_port ${telnetPort || 'disabled'}`,
+            '-c',
+            'tcl_port disabled',
+            ...serverArguments
+        ];
+
+        // RTOS support is configured on the target, which only exists once the user configuration is loaded
+        if (this.args.rtos === 'gdbserver') {
+            serverArguments.push('-c', '$_TARGETNAME configure -rtos auto');
+        }
+
+        // Allow a second connection for reading memory while the core runs
+        if (this.acceptsSecondConnection()) {
+            serverArguments.push('-c', '$_TARGETNAME configure -gdb-max-connections 2', '-c', GDB_ATTACH_EVENT);
+        }
+
+        return serverArguments;
+    }
+
+    protected acceptsSecondConnection(): boolean {
+        return !!(this.args.rtt || this.args.liveWatch);
+    }
+
+    protected resolveSerialArgument(serverArguments: string[]): string | undefined {
+        for (const argument of serverArguments) {
+            const match = SERIAL_COMMAND_REGEX.exec(argument.trim());
+            if (match) {
+                return match[1];
+            }
+        }
+
+        return undefined;
+    }
+
+    protected serverStarted(data: string): boolean {
+        return LAUNCH_REGEX.test(data);
+    }
+
+    protected serverError(data: string): boolean {
+        return ERROR_REGEX.test(data);
+    }
+}
@@ -24,169 +24,149 @@
 * SOFTWARE.
 */
 
-import { exec } from 'child_process';
-
-const maxBuffer = 2 * 1024 * 1024;
+import { readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { createServer } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const DEFAULT_START = 50000;
+const DEFAULT_LENGTH = 100;
+const POLL_INTERVAL = 100;
+// Servers may listen on any of these, a port is only free when it can be bound on all of them
+const HOSTS = [undefined, '127.0.0.1'];
+// Reservations shared with the sessions of other processes
+const LOCK_DIRECTORY = tmpdir();
+const LOCK_PREFIX = 'cmsis-debug-port-';
+
+export interface PortRange {
+    start: number;
+    end: number;
+}
 
-export class PortScanner {
+// Ports reserved by any scanner of this process
+const reservedPorts = new Set<number>();
 
-    public async findFreePort(start: number = 50000, length: number = 100): Promise<number | undefined> {
-        const fn = this.getFunction().bind(this);
+process.on('exit', () => reservedPorts.forEach(port => removeLock(port)));
 
-        for (let i = start; i <= start + length; i++) {
-            try {
-                // Try to find pid of port
-                await fn(i);
-            } catch (_e) {
-                // Port is free when pid not found
-                return i;
-            }
-        }
+function getLockFile(port: number): string {
+    return join(LOCK_DIRECTORY, `${LOCK_PREFIX}${port}.lock`);
+}
 
-        return undefined;
+function removeLock(port: number) {
+    try {
+        unlinkSync(getLockFile(port));
+    } catch (_error) {
+        // Already removed
     }
+}
 
-    private getFunction(): (port: number) => Promise<number> {
-        switch (process.platform) {
-            case 'darwin':
-            case 'freebsd':
-            case 'sunos': {
-                return this.darwin;
-                break;
-            }
-            case 'linux': {
-                return this.linux;
-                break;
-            }
-            case 'win32': {
-                return this.windows;
-                break;
-            }
-        }
-
-        return () => Promise.resolve(0);
+function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        // The process exists when only signalling it is denied
+        return error.code === 'EPERM';
     }
+}
 
-    private async darwin(port: number): Promise<number> {
-        const result = await this.execute('netstat -anv -p TCP && netstat -anv -p UDP');
-
-        // Replace header
-        const data = this.stripLine(result.toString(), 2);
-
-        const found = this.extractColumns(data, [0, 3, 8], 10)
-        .filter(row => !!String(row[0]).match(/^(udp|tcp)/))
-        .find(row => {
-            const matches = String(row[1]).match(/\.(\d+)$/);
-            return (matches && matches[1] === String(port));
-        });
+export class PortScanner {
 
-        if (found && found[2].length) {
-            return parseInt(found[2], 10);
-        }
+    protected ports = new Set<number>();
 
-        throw new Error(`pid of port (${port}) not found`);
+    constructor(protected range?: PortRange) {
     }
 
-    private async linux(port: number): Promise<number> {
-        // netstat -p ouputs warning if user is no-root
-        const result = await this.execute('netstat -tunlp');
-
-        // Replace header
-        const data = this.stripLine(result.toString(), 2);
-
-        const columns = this.extractColumns(data, [3, 6], 7)
-        .find(column => {
-            const matches = String(column[0]).match(/:(\d+)$/);
-            return (matches && matches[1] === String(port));
-        });
-
-        if (columns && columns[1]) {
-            const pid = columns[1].split('/', 1)[0];
+    /**
+     * Finds a port which can be bound and reserves it from other sessions until released
+     */
+    public async findFreePort(start?: number, length: number = DEFAULT_LENGTH): Promise<number | undefined> {
+        const first = start !== undefined ? start : this.range ? this.range.start : DEFAULT_START;
+        const last = start === undefined && this.range ? this.range.end : first + length;
 
-            if (pid.length) {
-                return parseInt(pid, 10);
+        for (let port = first; port <= last; port++) {
+            if (!reservedPorts.has(port) && await this.isFree(port) && this.reserve(port)) {
+                return port;
             }
         }
 
-        throw new Error(`pid of port (${port}) not found`);
+        return undefined;
     }
 
-    private async windows(port: number): Promise<number> {
-        const result = await this.execute('netstat -ano');
-
-        // Replace header
-        const data = this.stripLine(result.toString(), 4);
-
-        const columns = this.extractColumns(data, [1, 4], 5)
-        .find(column => {
-            const matches = String(column[0]).match(/:(\d+)$/);
-            return (matches && matches[1] === String(port));
-        });
-
-        if (columns && columns[1].length && parseInt(columns[1], 10) > 0) {
-            return parseInt(columns[1], 10);
+    public release(port: number) {
+        if (this.ports.delete(port)) {
+            reservedPorts.delete(port);
+            removeLock(port);
         }
-
-        throw new Error(`pid of port (${port}) not found`);
     }
 
-    private execute(cmd: string): Promise<string> {
-        return new Promise((resolve, reject) => {
-            exec(cmd, {
-                maxBuffer,
-                windowsHide: true
-            }, (error: Error | null, stdout: string) => {
-                if (error) {
-                    return reject(error);
-                }
-
-                return resolve(stdout);
-            });
-        });
+    public releaseAll() {
+        this.ports.forEach(port => this.release(port));
     }
 
-    private stripLine(text: string, num: number): string {
-        let idx = 0;
+    /**
+     * Waits for a server to listen on a port, without connecting as some servers exit once a client disconnects
+     */
+    public async waitForPort(port: number, timeout: number): Promise<void> {
+        const end = Date.now() + timeout;
 
-        while (num-- > 0) {
-            const nIdx = text.indexOf('\n', idx);
-            if (nIdx >= 0) {
-                idx = nIdx + 1;
+        while (Date.now() < end) {
+            if (!await this.isFree(port)) {
+                return;
             }
+
+            await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
         }
 
-        return idx > 0 ? text.substring(idx) : text;
+        throw new Error(`Timeout waiting for port ${port} to open`);
     }
 
-    private extractColumns(text: string, idxes: number[], max: number): string[][] {
-        const lines = text.split(/(\r\n|\n|\r)/);
-        const columns: string[][] = [];
-
-        if (!max) {
-            max = Math.max.apply(null, idxes) + 1;
+    private async isFree(port: number): Promise<boolean> {
+        for (const host of HOSTS) {
+            if (!await this.canBind(port, host)) {
+                return false;
+            }
         }
 
-        lines.forEach(line => {
-            const cols = this.split(line, max);
-            const column: string[] = [];
-
-            idxes.forEach(idx => {
-                column.push(cols[idx] || '');
-            });
+        return true;
+    }
 
-            columns.push(column);
+    private canBind(port: number, host?: string): Promise<boolean> {
+        return new Promise(resolve => {
+            const server = createServer();
+            server.once('error', () => resolve(false));
+            server.listen({ port, host, exclusive: true }, () => server.close(() => resolve(true)));
         });
-
-        return columns;
     }
 
-    private split(line: string, max: number): string[] {
-        const cols = line.trim().split(/\s+/);
+    private reserve(port: number): boolean {
+        const file = getLockFile(port);
 
-        if (cols.length > max) {
-            cols[max - 1] = cols.slice(max - 1).join(' ');
+        // Take over locks left behind by sessions which have ended
+        for (let attempt = 0; attempt < 2; attempt++) {
+            try {
+                writeFileSync(file, process.pid.toString(), { flag: 'wx' });
+                this.ports.add(port);
+                reservedPorts.add(port);
+                return true;
+            } catch (error) {
+                if (error.code !== 'EEXIST') {
+                    return false;
+                }
+            }
+
+            let owner = NaN;
+            try {
+                owner = parseInt(readFileSync(file, 'utf8'), 10);
+            } catch (_error) {
+                // Released in the meantime
+            }
+            if (!isNaN(owner) && isProcessAlive(owner)) {
+                return false;
+            }
+            removeLock(port);
         }
 
-        return cols;
+        return false;
     }
 }
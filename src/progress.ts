@@ -0,0 +1,102 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { OutputEvent, ProgressEndEvent, ProgressStartEvent, ProgressUpdateEvent } from 'vscode-debugadapter';
+import { DebugProtocol } from 'vscode-debugprotocol';
+
+/**
+ * Reports a long running operation with DAP progress events,
+ * or as telemetry output when the client can't show progress
+ */
+export class ProgressReporter {
+
+    public cancelled = false;
+    protected percent = -1;
+    protected ended = false;
+    protected cancelHandler?: () => void;
+
+    constructor(public readonly id: string, protected title: string, protected sendEvent: (event: DebugProtocol.Event) => void,
+                protected supported: boolean) {
+    }
+
+    /**
+     * Starts reporting, the operation can be cancelled by the client when given a cancel handler
+     */
+    public start(cancelHandler?: () => void) {
+        this.cancelHandler = cancelHandler;
+        if (this.supported) {
+            const event = new ProgressStartEvent(this.id, this.title) as DebugProtocol.ProgressStartEvent;
+            event.body.cancellable = !!cancelHandler;
+            event.body.percentage = 0;
+            this.sendEvent(event);
+        } else {
+            this.sendTelemetry(0);
+        }
+        this.percent = 0;
+    }
+
+    public update(percent: number, message?: string) {
+        percent = Math.min(Math.max(Math.round(percent), 0), 100);
+        if (this.ended || percent === this.percent) {
+            return;
+        }
+
+        this.percent = percent;
+        if (this.supported) {
+            const event = new ProgressUpdateEvent(this.id, message) as DebugProtocol.ProgressUpdateEvent;
+            event.body.percentage = percent;
+            this.sendEvent(event);
+        } else {
+            this.sendTelemetry(percent);
+        }
+    }
+
+    public cancel() {
+        if (this.cancelHandler && !this.cancelled && !this.ended) {
+            this.cancelled = true;
+            this.cancelHandler();
+        }
+    }
+
+    public end(message?: string) {
+        if (this.ended) {
+            return;
+        }
+
+        this.ended = true;
+        if (this.supported) {
+            this.sendEvent(new ProgressEndEvent(this.id, message));
+        } else if (this.percent !== 100) {
+            this.sendTelemetry(100);
+        }
+    }
+
+    protected sendTelemetry(percent: number) {
+        this.sendEvent(new OutputEvent('progress', 'telemetry', {
+            percent,
+            message: this.title
+        }));
+    }
+}
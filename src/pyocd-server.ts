@@ -23,17 +23,24 @@
 * SOFTWARE.
 */
 
-import { AbstractServer } from './abstract-server';
-import { PortScanner } from './port-scanner';
+import { AbstractServer, ResetMode, RttServerChannels, SwoServerSource } from './abstract-server';
+import { SwoConfiguration } from './swo';
 
 const LAUNCH_REGEX = /GDB server started/;
 const ERROR_REGEX = /:ERROR:gdbserver:/;
 const PERCENT_MULTIPLIER = 100 / 40; // pyOCD outputs 40 markers for progress
+const PROGRESS_REGEX = /^(\[)?(=*)(\])?$/;
+// Reset types of the pyOCD reset command
+const RESET_TYPES: { [mode: string]: string } = {
+    hardware: 'hw',
+    system: 'sysresetreq',
+    core: 'vectreset'
+};
 
 export class PyocdServer extends AbstractServer {
 
-    protected portScanner = new PortScanner();
     protected progress = 0;
+    protected swvPort: number | undefined;
 
     public resolveGdbPort(port: number): number {
         if (this.args.gdbCore && this.args.gdbCore > 0) {
@@ -45,11 +52,68 @@ export class PyocdServer extends AbstractServer {
         return port;
     }
 
+    public resolveCorePort(core: number): number | undefined {
+        return this.port + core;
+    }
+
+    public resolveResetCommands(mode?: ResetMode): string[] {
+        const type = mode ? RESET_TYPES[mode] : undefined;
+        return [type ? `reset halt ${type}` : 'reset halt'];
+    }
+
+    public resolveChipEraseCommands(): string[] | undefined {
+        return ['erase'];
+    }
+
+    public resolveRttChannels(address: number, searchSize: number, channels: number[]): Promise<RttServerChannels | undefined> {
+        return this.resolveRttServerChannels(address, searchSize, channels);
+    }
+
+    public async resolveSwoSource(_config: SwoConfiguration): Promise<SwoServerSource | undefined> {
+        // pyOCD configures SWV capture from its options when starting
+        return this.swvPort ? { commands: [], port: this.swvPort } : undefined;
+    }
+
     protected async resolveServerArguments(serverArguments?: string[]): Promise<string[]> {
         if (!serverArguments) {
             serverArguments = [];
         }
 
+        serverArguments = [
+            ...serverArguments,
+            '--port',
+            this.port.toString()
+        ];
+
+        // pyOCD can only load zipped packs
+        if (this.args.cmsisPack && this.args.cmsisPack.toLowerCase().endsWith('.pack') && !this.hasArgument(serverArguments, '--pack')) {
+            serverArguments.push('--pack', this.args.cmsisPack);
+        }
+
+        if (this.device) {
+            // pyOCD names pack targets after the lower case part number, it only knows them from a loaded pack
+            if (this.hasArgument(serverArguments, '--pack') && !this.hasArgument(serverArguments, '-t', '--target')) {
+                serverArguments.push('--target', this.device.name.toLowerCase());
+            }
+
+            if (this.device.debugClock && !this.hasArgument(serverArguments, '-f', '--frequency')) {
+                serverArguments.push('--frequency', this.device.debugClock.toString());
+            }
+        }
+
+        if (this.args.swo && (this.args.swo.source || 'server') === 'server') {
+            this.swvPort = await this.portScanner.findFreePort(3443);
+            if (this.swvPort) {
+                serverArguments.push(
+                    '-O', 'enable_swv=true',
+                    '-O', `swv_system_clock=${this.args.swo.cpuFrequency}`,
+                    '-O', `swv_clock=${this.args.swo.swoFrequency}`,
+                    '-O', 'swv_raw_enable=true',
+                    '-O', `swv_raw_port=${this.swvPort}`
+                );
+            }
+        }
+
         const telnetPort = await this.portScanner.findFreePort(4444);
 
         if (!telnetPort) {
@@ -63,15 +127,45 @@ export class PyocdServer extends AbstractServer {
         ];
     }
 
+    protected resolveSerialArgument(serverArguments: string[]): string | undefined {
+        for (let index = 0; index < serverArguments.length; index++) {
+            const argument = serverArguments[index];
+            for (const name of ['-u', '--uid', '--probe']) {
+                if (argument === name && index + 1 < serverArguments.length) {
+                    return serverArguments[index + 1];
+                }
+                if (argument.startsWith(`${name}=`)) {
+                    return argument.substring(name.length + 1);
+                }
+            }
+        }
+
+        return undefined;
+    }
+
+    protected hasArgument(serverArguments: string[], ...names: string[]): boolean {
+        return serverArguments.some(argument => names.some(name => argument === name || argument.startsWith(`${name}=`)));
+    }
+
     protected onStdout(chunk: string | Buffer) {
         super.onStdout(chunk);
         const buffer = typeof chunk === 'string' ? chunk : chunk.toString('utf8');
-        const match = buffer.match(/=/g);
 
-        if (match) {
-            this.progress += match.length;
-            const percent = Math.round(this.progress * PERCENT_MULTIPLIER);
-            this.emit('progress', percent);
+        // The progress bar is written a few markers at a time, log lines can hold markers too
+        for (const line of buffer.split(/\r?\n/)) {
+            const match = line.trim() ? PROGRESS_REGEX.exec(line.trim()) : null;
+            if (!match) {
+                continue;
+            }
+
+            // Each load draws a new bar
+            if (match[1]) {
+                this.progress = 0;
+            }
+            this.progress += match[2].length;
+            if (match[2] || match[3]) {
+                this.emit('progress', match[3] ? 100 : Math.min(Math.round(this.progress * PERCENT_MULTIPLIER), 100));
+            }
         }
     }
 
@@ -0,0 +1,99 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { SymbolInformation, SymbolType } from './symbols';
+import { toHex } from './svd';
+
+// Adapter commands are prefixed to keep them apart from gdb commands
+export const REPL_PREFIX = ':';
+
+const BYTES_PER_LINE = 16;
+
+export interface ReplCommand {
+    name: string;
+    usage: string;
+    description: string;
+}
+
+export interface ReplInput {
+    name: string;
+    args: string[];
+}
+
+export const REPL_COMMANDS: ReplCommand[] = [
+    { name: 'help', usage: ':help', description: 'List the adapter commands' },
+    { name: 'mem', usage: ':mem <address> [length]', description: 'Show target memory, the address may be an expression' },
+    { name: 'regs', usage: ':regs', description: 'Show the registers of the current core' },
+    { name: 'symbols', usage: ':symbols <pattern>', description: 'List functions and variables matching a pattern, * and ? are wildcards' },
+    { name: 'reset', usage: ':reset [hardware|system|core]', description: 'Reset and halt the target' },
+    { name: 'load', usage: ':load [file]', description: 'Load the program, or another image, and reset the target' }
+];
+
+export function parseReplInput(expression: string): ReplInput | undefined {
+    const text = expression.trim();
+    if (!text.startsWith(REPL_PREFIX)) {
+        return undefined;
+    }
+
+    const [name, ...args] = text.substring(REPL_PREFIX.length).split(/\s+/);
+    return { name, args };
+}
+
+/**
+ * Patterns without wildcards match anywhere in a name
+ */
+export function globToRegExp(pattern: string): RegExp {
+    const source = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(/[*?]/.test(pattern) ? `^${source}$` : source);
+}
+
+export function formatHelp(): string {
+    const width = Math.max(...REPL_COMMANDS.map(command => command.usage.length));
+    return REPL_COMMANDS.map(command => `${command.usage.padEnd(width)}  ${command.description}`).join('\n');
+}
+
+export function formatHexDump(address: number, data: Buffer): string {
+    const lines: string[] = [];
+    for (let offset = 0; offset < data.length; offset += BYTES_PER_LINE) {
+        const bytes = Array.from(data.slice(offset, offset + BYTES_PER_LINE));
+        const hex = bytes.map(byte => byte.toString(16).padStart(2, '0')).join(' ');
+        const text = bytes.map(byte => byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.').join('');
+        lines.push(`${toHex(address + offset)}  ${hex.padEnd(BYTES_PER_LINE * 3 - 1)}  ${text}`);
+    }
+
+    return lines.join('\n');
+}
+
+export function formatRegisters(values: Map<string, number>): string {
+    const width = Math.max(...Array.from(values.keys()).map(name => name.length));
+    return Array.from(values.entries()).map(([name, value]) => `${name.padEnd(width)}  ${toHex(value)}`).join('\n');
+}
+
+export function formatSymbols(symbols: SymbolInformation[]): string {
+    return symbols.map(symbol => {
+        const kind = symbol.type === SymbolType.Function ? 'function' : 'variable';
+        return `${toHex(symbol.address)}  ${symbol.name} (${kind}${symbol.file ? `, ${symbol.file}` : ''})`;
+    }).join('\n');
+}
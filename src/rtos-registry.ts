@@ -0,0 +1,63 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { GDBBackend } from 'cdt-gdb-adapter/dist/GDBBackend';
+import { AbstractRtos } from './abstract-rtos';
+import { FreeRtos } from './freertos';
+import { Rtx5 } from './rtx5';
+import { SymbolTable } from './symbols';
+import { Zephyr } from './zephyr';
+
+export type RtosConstructor = new (gdb: GDBBackend) => AbstractRtos;
+
+interface RtosDefinition {
+    // Symbol identifying the kernel in an image
+    symbol: string;
+    Rtos: RtosConstructor;
+}
+
+const RTOSES: { [type: string]: RtosDefinition } = {
+    freertos: { symbol: 'pxCurrentTCB', Rtos: FreeRtos },
+    rtx5: { symbol: 'osRtxInfo', Rtos: Rtx5 },
+    zephyr: { symbol: '_kernel', Rtos: Zephyr }
+};
+
+export function registerRtos(type: string, symbol: string, Rtos: RtosConstructor) {
+    RTOSES[type] = { symbol, Rtos };
+}
+
+export function detectRtos(symbolTable: SymbolTable): string | undefined {
+    return Object.keys(RTOSES).find(type => !!symbolTable.getSymbol(RTOSES[type].symbol));
+}
+
+export function createRtos(type: string, gdb: GDBBackend): AbstractRtos {
+    const definition = RTOSES[type];
+
+    if (!definition) {
+        throw new Error(`Unsupported RTOS '${type}', expected one of: ${Object.keys(RTOSES).join(', ')}`);
+    }
+
+    return new definition.Rtos(gdb);
+}
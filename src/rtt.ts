@@ -0,0 +1,224 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { EventEmitter } from 'events';
+import { StringDecoder } from 'string_decoder';
+import { toHex } from './svd';
+
+export interface RttConfiguration {
+    // Control block address or symbol, defaults to _SEGGER_RTT
+    address?: string;
+    // Search this many bytes from the address for the control block id
+    searchSize?: number;
+    channels?: number[];
+    pollInterval?: number;
+    source?: 'auto' | 'server' | 'adapter';
+}
+
+export interface MemoryAccess {
+    isAccessible(): boolean;
+    read(address: number, length: number): Promise<Buffer>;
+    write(address: number, data: Buffer): Promise<void>;
+}
+
+export interface RttBuffer {
+    name: number;
+    buffer: number;
+    size: number;
+    writeOffset: number;
+    readOffset: number;
+    flags: number;
+}
+
+export const RTT_ID = 'SEGGER RTT';
+export const RTT_SYMBOL = '_SEGGER_RTT';
+export const RTT_HEADER_SIZE = 24;
+export const RTT_BUFFER_SIZE = 24;
+
+const DEFAULT_POLL_INTERVAL = 100;
+const SEARCH_CHUNK_SIZE = 1024;
+const WRITE_OFFSET = 12;
+const READ_OFFSET = 16;
+
+export function parseRttBuffer(data: Buffer, offset = 0): RttBuffer {
+    return {
+        name: data.readUInt32LE(offset),
+        buffer: data.readUInt32LE(offset + 4),
+        size: data.readUInt32LE(offset + 8),
+        writeOffset: data.readUInt32LE(offset + WRITE_OFFSET),
+        readOffset: data.readUInt32LE(offset + READ_OFFSET),
+        flags: data.readUInt32LE(offset + 20)
+    };
+}
+
+/**
+ * Polls RTT up-buffers in target memory, emitting 'data' with the channel and text read
+ */
+export class RttPoller extends EventEmitter {
+
+    protected controlBlock = 0;
+    protected upBuffers = 0;
+    protected downBuffers = 0;
+    protected timer?: NodeJS.Timer;
+    protected polling = false;
+    protected decoders = new Map<number, StringDecoder>();
+
+    constructor(protected memory: MemoryAccess, protected address: number, protected searchSize = 0, protected channels = [0]) {
+        super();
+    }
+
+    public start(interval = DEFAULT_POLL_INTERVAL) {
+        this.stop();
+        this.timer = setInterval(() => this.poll().catch(error => this.emit('error', error)), interval);
+    }
+
+    public stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    public async poll(): Promise<void> {
+        if (this.polling || !this.memory.isAccessible()) {
+            return;
+        }
+
+        this.polling = true;
+        try {
+            // The control block is only valid once the target has initialised it
+            if (!this.controlBlock && !await this.locate()) {
+                return;
+            }
+
+            const descriptors = await this.memory.read(this.controlBlock + RTT_HEADER_SIZE, this.upBuffers * RTT_BUFFER_SIZE);
+
+            for (const channel of this.channels.filter(c => c < this.upBuffers)) {
+                const descriptor = this.controlBlock + RTT_HEADER_SIZE + channel * RTT_BUFFER_SIZE;
+                const up = parseRttBuffer(descriptors, channel * RTT_BUFFER_SIZE);
+                if (up.writeOffset === up.readOffset || up.writeOffset >= up.size || up.readOffset >= up.size) {
+                    continue;
+                }
+
+                // Read up to the end of the buffer, then from its start when the data wraps
+                const data = [await this.memory.read(up.buffer + up.readOffset,
+                    (up.writeOffset > up.readOffset ? up.writeOffset : up.size) - up.readOffset)];
+                if (up.writeOffset < up.readOffset && up.writeOffset > 0) {
+                    data.push(await this.memory.read(up.buffer, up.writeOffset));
+                }
+
+                const readOffset = Buffer.alloc(4);
+                readOffset.writeUInt32LE(up.writeOffset, 0);
+                await this.memory.write(descriptor + READ_OFFSET, readOffset);
+
+                const text = this.getDecoder(channel).write(Buffer.concat(data));
+                if (text) {
+                    this.emit('data', channel, text);
+                }
+            }
+        } finally {
+            this.polling = false;
+        }
+    }
+
+    /**
+     * Write to down-buffer 0, returning the number of bytes the buffer had space for
+     */
+    public async write(data: Buffer): Promise<number> {
+        if (!this.memory.isAccessible()) {
+            throw new Error('Unable to write to RTT while the target is running');
+        }
+        if ((!this.controlBlock && !await this.locate()) || this.downBuffers < 1) {
+            throw new Error('No RTT down-buffer available');
+        }
+
+        const descriptor = this.controlBlock + RTT_HEADER_SIZE + this.upBuffers * RTT_BUFFER_SIZE;
+        const down = parseRttBuffer(await this.memory.read(descriptor, RTT_BUFFER_SIZE));
+        if (down.writeOffset >= down.size || down.readOffset >= down.size) {
+            throw new Error(`Invalid RTT down-buffer at ${toHex(descriptor)}`);
+        }
+
+        // One byte is always left free to distinguish a full buffer from an empty one
+        const free = (down.readOffset - down.writeOffset - 1 + down.size) % down.size;
+        const length = Math.min(free, data.length);
+        const first = Math.min(length, down.size - down.writeOffset);
+
+        if (first > 0) {
+            await this.memory.write(down.buffer + down.writeOffset, data.slice(0, first));
+        }
+        if (length > first) {
+            await this.memory.write(down.buffer, data.slice(first, length));
+        }
+
+        const writeOffset = Buffer.alloc(4);
+        writeOffset.writeUInt32LE((down.writeOffset + length) % down.size, 0);
+        await this.memory.write(descriptor + WRITE_OFFSET, writeOffset);
+        return length;
+    }
+
+    /**
+     * Find the control block at the address or within the search range following it
+     */
+    protected async locate(): Promise<boolean> {
+        const id = Buffer.from(RTT_ID, 'latin1');
+        let found: number | undefined;
+
+        if (this.searchSize > 0) {
+            // Overlap chunks so an id split across a boundary is still found
+            for (let offset = 0; offset < this.searchSize && found === undefined; offset += SEARCH_CHUNK_SIZE - id.length) {
+                const data = await this.memory.read(this.address + offset, Math.min(SEARCH_CHUNK_SIZE, this.searchSize - offset));
+                const index = data.indexOf(id);
+                if (index !== -1) {
+                    found = this.address + offset + index;
+                }
+            }
+        } else {
+            const data = await this.memory.read(this.address, id.length);
+            if (data.equals(id)) {
+                found = this.address;
+            }
+        }
+
+        if (found === undefined) {
+            return false;
+        }
+
+        const header = await this.memory.read(found, RTT_HEADER_SIZE);
+        this.controlBlock = found;
+        this.upBuffers = header.readUInt32LE(16);
+        this.downBuffers = header.readUInt32LE(20);
+        return true;
+    }
+
+    protected getDecoder(channel: number): StringDecoder {
+        let decoder = this.decoders.get(channel);
+        if (!decoder) {
+            decoder = new StringDecoder('utf8');
+            this.decoders.set(channel, decoder);
+        }
+
+        return decoder;
+    }
+}
@@ -0,0 +1,81 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { AbstractRtos, RtosTask, TaskContext } from './abstract-rtos';
+import { hasExtendedFrame } from './cortex-m';
+
+const THREAD_STATES: { [state: number]: string } = {
+    0: 'Inactive',
+    1: 'Ready',
+    2: 'Running',
+    3: 'Blocked',
+    4: 'Terminated'
+};
+
+// Thread lists in osRtxInfo, with the member linking the threads in each
+const THREAD_LISTS: Array<[string, string]> = [
+    ['osRtxInfo.thread.ready.thread_list', 'thread_next'],
+    ['osRtxInfo.thread.delay_list', 'delay_next'],
+    ['osRtxInfo.thread.wait_list', 'delay_next'],
+    ['osRtxInfo.thread.terminate_list', 'thread_next']
+];
+
+export class Rtx5 extends AbstractRtos {
+
+    public readonly name = 'RTX5';
+
+    public async getTasks(): Promise<RtosTask[]> {
+        const current = await this.evaluate('osRtxInfo.thread.run.curr');
+        const threads = current ? [current] : [];
+
+        for (const [list, next] of THREAD_LISTS) {
+            const items = await this.walkList(await this.evaluate(list), item => `((osRtxThread_t *)${item})->${next}`);
+            threads.push(...items.filter(item => threads.indexOf(item) === -1));
+        }
+
+        const tasks: RtosTask[] = [];
+        for (const thread of threads) {
+            const state = await this.evaluate(`((osRtxThread_t *)${thread})->state`);
+            tasks.push({
+                id: thread,
+                name: await this.readString(await this.evaluate(`((osRtxThread_t *)${thread})->name`)),
+                state: THREAD_STATES[state & 0x07] || `State ${state}`,
+                priority: await this.evaluate(`((osRtxThread_t *)${thread})->priority`),
+                current: thread === current
+            });
+        }
+
+        return tasks;
+    }
+
+    public async getTaskContext(task: RtosTask): Promise<TaskContext> {
+        const sp = await this.evaluate(`((osRtxThread_t *)${task.id})->sp`);
+        // The low byte of EXC_RETURN is kept in stack_frame, s16-s31 follow r4-r11 for extended frames
+        const excReturn = (0xFFFFFF00 | await this.evaluate(`((osRtxThread_t *)${task.id})->stack_frame`)) >>> 0;
+        const calleeSaved = await this.readWords(sp, 8);
+        const frameAddress = sp + 8 * 4 + (hasExtendedFrame(excReturn) ? 16 * 4 : 0);
+        return this.unstackContext(calleeSaved, frameAddress, excReturn);
+    }
+}
@@ -0,0 +1,60 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { AbstractServer } from './abstract-server';
+import { CmsisRequestArguments } from './cmsis-debug-session';
+import { PackDevice } from './cmsis-pack';
+import { JlinkServer } from './jlink-server';
+import { OpenocdServer } from './openocd-server';
+import { PyocdServer } from './pyocd-server';
+import { QemuServer } from './qemu-server';
+import { StlinkServer } from './stlink-server';
+
+export type ServerConstructor = new (args: CmsisRequestArguments, device?: PackDevice) => AbstractServer;
+
+const DEFAULT_SERVER_TYPE = 'pyocd';
+
+const SERVERS: { [type: string]: ServerConstructor } = {
+    pyocd: PyocdServer,
+    openocd: OpenocdServer,
+    jlink: JlinkServer,
+    stlink: StlinkServer,
+    qemu: QemuServer
+};
+
+export function registerServer(type: string, server: ServerConstructor) {
+    SERVERS[type] = server;
+}
+
+export function createServer(args: CmsisRequestArguments, device?: PackDevice): AbstractServer {
+    const type = args.gdbServerType || DEFAULT_SERVER_TYPE;
+    const Server = SERVERS[type];
+
+    if (!Server) {
+        throw new Error(`Unsupported gdb server type '${type}', expected one of: ${Object.keys(SERVERS).join(', ')}`);
+    }
+
+    return new Server(args, device);
+}
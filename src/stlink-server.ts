@@ -0,0 +1,57 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { AbstractServer } from './abstract-server';
+
+const LAUNCH_REGEX = /Listening at/;
+const ERROR_REGEX = /(Couldn't find any ST-Link|ERROR .*: )/;
+
+export class StlinkServer extends AbstractServer {
+
+    protected defaultCommand = 'st-util';
+
+    public resolveResetCommands(): string[] {
+        return ['reset'];
+    }
+
+    protected async resolveServerArguments(serverArguments?: string[]): Promise<string[]> {
+        if (!serverArguments) {
+            serverArguments = [];
+        }
+
+        return [
+            ...serverArguments,
+            `--listen_port=${this.port}`
+        ];
+    }
+
+    protected serverStarted(data: string): boolean {
+        return LAUNCH_REGEX.test(data);
+    }
+
+    protected serverError(data: string): boolean {
+        return ERROR_REGEX.test(data);
+    }
+}
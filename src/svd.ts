@@ -0,0 +1,372 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { readFile } from 'fs';
+import { childText, findChild, findChildren, parseXml, XmlElement } from './xml';
+
+export enum SvdAccess {
+    ReadOnly = 'read-only',
+    WriteOnly = 'write-only',
+    ReadWrite = 'read-write',
+    WriteOnce = 'writeOnce',
+    ReadWriteOnce = 'read-writeOnce'
+}
+
+export interface SvdEnumeratedValue {
+    name: string;
+    description?: string;
+    value?: number;
+    isDefault: boolean;
+}
+
+export interface SvdField {
+    name: string;
+    description?: string;
+    bitOffset: number;
+    bitWidth: number;
+    access: SvdAccess;
+    enumeratedValues: SvdEnumeratedValue[];
+}
+
+export interface SvdRegister {
+    name: string;
+    description?: string;
+    addressOffset: number;
+    size: number;
+    access: SvdAccess;
+    resetValue: number;
+    readAction?: string;
+    fields: SvdField[];
+}
+
+export interface SvdAddressBlock {
+    offset: number;
+    size: number;
+}
+
+export interface SvdPeripheral {
+    name: string;
+    description?: string;
+    groupName?: string;
+    baseAddress: number;
+    addressBlocks: SvdAddressBlock[];
+    registers: SvdRegister[];
+}
+
+interface RegisterProperties {
+    size: number;
+    access: SvdAccess;
+    resetValue: number;
+}
+
+const DEFAULT_PROPERTIES: RegisterProperties = {
+    size: 32,
+    access: SvdAccess.ReadWrite,
+    resetValue: 0
+};
+
+const MULTIPLIERS: { [suffix: string]: number } = {
+    k: 1024,
+    m: 1024 * 1024,
+    g: 1024 * 1024 * 1024
+};
+
+/**
+ * Parse a scaledNonNegativeInteger as used throughout CMSIS descriptor files
+ */
+export function parseInteger(text: string | undefined): number | undefined {
+    if (text === undefined) {
+        return undefined;
+    }
+
+    let value = text.trim().toLowerCase();
+    let multiplier = 1;
+    const suffix = value[value.length - 1];
+    if (MULTIPLIERS[suffix] && !value.startsWith('0x')) {
+        multiplier = MULTIPLIERS[suffix];
+        value = value.substring(0, value.length - 1);
+    }
+
+    let result: number;
+    if (value.startsWith('0x')) {
+        result = parseInt(value.substring(2), 16);
+    } else if (value.startsWith('#')) {
+        // Binary values may contain 'x' for "don't care" bits which can't be represented here
+        result = /^#[01]+$/.test(value) ? parseInt(value.substring(1), 2) : NaN;
+    } else if (value.startsWith('0b')) {
+        result = parseInt(value.substring(2), 2);
+    } else {
+        result = parseInt(value, 10);
+    }
+
+    return isNaN(result) ? undefined : result * multiplier;
+}
+
+export function toHex(value: number, bits: number = 32): string {
+    const digits = Math.ceil(bits / 4);
+    const hex = value.toString(16).toUpperCase();
+    return `0x${hex.length < digits ? '0'.repeat(digits - hex.length) + hex : hex}`;
+}
+
+export function isReadable(access: SvdAccess): boolean {
+    return access !== SvdAccess.WriteOnly && access !== SvdAccess.WriteOnce;
+}
+
+export function isWritable(access: SvdAccess): boolean {
+    return access !== SvdAccess.ReadOnly;
+}
+
+export function getFieldValue(field: SvdField, registerValue: number): number {
+    const mask = fieldMask(field);
+    return ((registerValue >>> field.bitOffset) & mask) >>> 0;
+}
+
+export function setFieldValue(field: SvdField, registerValue: number, fieldValue: number): number {
+    const mask = fieldMask(field);
+    if (fieldValue < 0 || fieldValue > mask) {
+        throw new Error(`Value ${fieldValue} doesn't fit in ${field.bitWidth} bit field ${field.name}`);
+    }
+    const shiftedMask = (mask << field.bitOffset) >>> 0;
+    return ((registerValue & ~shiftedMask) | ((fieldValue << field.bitOffset) & shiftedMask)) >>> 0;
+}
+
+function fieldMask(field: SvdField): number {
+    // Bitwise operators are signed, 1 << 31 is negative
+    return field.bitWidth >= 32 ? 0xFFFFFFFF : (2 ** field.bitWidth) - 1;
+}
+
+export function findEnumeratedValue(field: SvdField, value: number): SvdEnumeratedValue | undefined {
+    return field.enumeratedValues.find(e => e.value === value) || field.enumeratedValues.find(e => e.isDefault);
+}
+
+export class SvdFile {
+
+    private peripherals: SvdPeripheral[] = [];
+
+    constructor(private file: string) {
+    }
+
+    public async loadPeripherals(contents?: string): Promise<void> {
+        if (contents === undefined) {
+            contents = await this.read();
+        }
+
+        const device = parseXml(contents);
+        if (device.name !== 'device') {
+            throw new Error(`${this.file} is not an SVD file`);
+        }
+
+        const properties = this.parseProperties(device, DEFAULT_PROPERTIES);
+        const peripheralsElement = findChild(device, 'peripherals');
+        const elements = peripheralsElement ? findChildren(peripheralsElement, 'peripheral') : [];
+        const byName: { [name: string]: XmlElement } = {};
+
+        for (const element of elements) {
+            const name = childText(element, 'name');
+            if (name) {
+                byName[name] = element;
+            }
+        }
+
+        this.peripherals = [];
+        for (const element of elements) {
+            this.peripherals.push(...this.parsePeripheral(element, byName, properties));
+        }
+
+        this.peripherals.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    public getPeripherals(): SvdPeripheral[] {
+        return this.peripherals;
+    }
+
+    private parsePeripheral(element: XmlElement, byName: { [name: string]: XmlElement }, inherited: RegisterProperties): SvdPeripheral[] {
+        const base = element.attributes.derivedFrom ? byName[element.attributes.derivedFrom] : undefined;
+        const lookup = (tag: string) => {
+            const value = childText(element, tag);
+            return (value === undefined && base) ? childText(base, tag) : value;
+        };
+
+        const properties = this.parseProperties(element, base ? this.parseProperties(base, inherited) : inherited);
+        const registersElement = findChild(element, 'registers') || (base && findChild(base, 'registers'));
+        const registers = registersElement ? this.parseRegisters(registersElement, properties, 0, '') : [];
+        const name = childText(element, 'name') || '';
+        const baseAddress = parseInteger(lookup('baseAddress')) || 0;
+        const blockElements = findChildren(element, 'addressBlock');
+        const addressBlocks = (blockElements.length || !base ? blockElements : findChildren(base, 'addressBlock')).map(block => ({
+            offset: parseInteger(childText(block, 'offset')) || 0,
+            size: parseInteger(childText(block, 'size')) || 0
+        }));
+
+        return this.expand(element, name, baseAddress).map(([expandedName, address]) => ({
+            name: expandedName,
+            description: this.clean(lookup('description')),
+            groupName: lookup('groupName'),
+            baseAddress: address,
+            addressBlocks,
+            registers
+        }));
+    }
+
+    private parseRegisters(element: XmlElement, inherited: RegisterProperties, offset: number, prefix: string): SvdRegister[] {
+        const registers: SvdRegister[] = [];
+        const byName: { [name: string]: XmlElement } = {};
+
+        for (const child of element.children) {
+            const name = childText(child, 'name');
+            if (name) {
+                byName[name] = child;
+            }
+        }
+
+        for (const child of element.children) {
+            const base = child.attributes.derivedFrom ? byName[child.attributes.derivedFrom] : undefined;
+            const properties = this.parseProperties(child, base ? this.parseProperties(base, inherited) : inherited);
+            const name = childText(child, 'name') || '';
+            const addressOffset = parseInteger(childText(child, 'addressOffset') || (base && childText(base, 'addressOffset'))) || 0;
+
+            if (child.name === 'cluster') {
+                for (const [clusterName, clusterOffset] of this.expand(child, name, offset + addressOffset)) {
+                    registers.push(...this.parseRegisters(child, properties, clusterOffset, `${prefix}${clusterName}.`));
+                }
+            } else if (child.name === 'register') {
+                const fieldsElement = findChild(child, 'fields') || (base && findChild(base, 'fields'));
+                const fields = fieldsElement ? findChildren(fieldsElement, 'field').map(field => this.parseField(field, properties.access)) : [];
+                fields.sort((a, b) => b.bitOffset - a.bitOffset);
+
+                for (const [registerName, registerOffset] of this.expand(child, name, offset + addressOffset)) {
+                    registers.push({
+                        name: `${prefix}${registerName}`,
+                        description: this.clean(childText(child, 'description') || (base && childText(base, 'description'))),
+                        addressOffset: registerOffset,
+                        size: properties.size,
+                        access: properties.access,
+                        resetValue: properties.resetValue,
+                        readAction: childText(child, 'readAction'),
+                        fields
+                    });
+                }
+            }
+        }
+
+        return registers.sort((a, b) => a.addressOffset - b.addressOffset);
+    }
+
+    private parseField(element: XmlElement, registerAccess: SvdAccess): SvdField {
+        let bitOffset = parseInteger(childText(element, 'bitOffset'));
+        let bitWidth = parseInteger(childText(element, 'bitWidth'));
+
+        if (bitOffset === undefined) {
+            const lsb = parseInteger(childText(element, 'lsb'));
+            const msb = parseInteger(childText(element, 'msb'));
+            const range = (childText(element, 'bitRange') || '').match(/\[(\d+):(\d+)\]/);
+
+            if (lsb !== undefined && msb !== undefined) {
+                bitOffset = lsb;
+                bitWidth = msb - lsb + 1;
+            } else if (range) {
+                bitOffset = parseInt(range[2], 10);
+                bitWidth = parseInt(range[1], 10) - bitOffset + 1;
+            }
+        }
+
+        const enumeratedValues: SvdEnumeratedValue[] = [];
+        for (const enumeration of findChildren(element, 'enumeratedValues')) {
+            for (const value of findChildren(enumeration, 'enumeratedValue')) {
+                enumeratedValues.push({
+                    name: childText(value, 'name') || '',
+                    description: this.clean(childText(value, 'description')),
+                    value: parseInteger(childText(value, 'value')),
+                    isDefault: childText(value, 'isDefault') === 'true'
+                });
+            }
+        }
+
+        return {
+            name: childText(element, 'name') || '',
+            description: this.clean(childText(element, 'description')),
+            bitOffset: bitOffset || 0,
+            bitWidth: bitWidth || 1,
+            access: (childText(element, 'access') as SvdAccess) || registerAccess,
+            enumeratedValues
+        };
+    }
+
+    private parseProperties(element: XmlElement, inherited: RegisterProperties): RegisterProperties {
+        const size = parseInteger(childText(element, 'size'));
+        const resetValue = parseInteger(childText(element, 'resetValue'));
+        const access = childText(element, 'access') as SvdAccess | undefined;
+
+        return {
+            size: size !== undefined ? size : inherited.size,
+            access: access || inherited.access,
+            resetValue: resetValue !== undefined ? resetValue : inherited.resetValue
+        };
+    }
+
+    /**
+     * Expand dim arrays and lists into name and address pairs
+     */
+    private expand(element: XmlElement, name: string, address: number): Array<[string, number]> {
+        const dim = parseInteger(childText(element, 'dim'));
+        if (!dim) {
+            return [[name, address]];
+        }
+
+        const increment = parseInteger(childText(element, 'dimIncrement')) || 0;
+        const dimIndex = childText(element, 'dimIndex');
+        let indices: string[] = [];
+
+        if (dimIndex && /^\d+-\d+$/.test(dimIndex)) {
+            const [first] = dimIndex.split('-').map(i => parseInt(i, 10));
+            indices = Array.from({ length: dim }, (_, i) => `${first + i}`);
+        } else if (dimIndex) {
+            indices = dimIndex.split(',').map(i => i.trim());
+        } else {
+            indices = Array.from({ length: dim }, (_, i) => `${i}`);
+        }
+
+        return indices.slice(0, dim).map((index, i) => {
+            const expanded = name.includes('[%s]') ? name.replace('[%s]', `[${index}]`) : name.replace('%s', index);
+            return [expanded, address + i * increment] as [string, number];
+        });
+    }
+
+    private clean(text: string | undefined): string | undefined {
+        return text ? text.replace(/\s+/g, ' ').trim() : undefined;
+    }
+
+    private read(): Promise<string> {
+        return new Promise((resolve, reject) => {
+            readFile(this.file, 'utf8', (error, data) => {
+                if (error) {
+                    return reject(error);
+                }
+
+                resolve(data);
+            });
+        });
+    }
+}
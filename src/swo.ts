@@ -0,0 +1,238 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { HARDWARE_PC_SAMPLE, ItmDecoder, ItmPacket } from './itm';
+import { MemoryAccess } from './rtt';
+import { SymbolTable } from './symbols';
+
+export interface SwoConfiguration {
+    cpuFrequency: number;
+    swoFrequency: number;
+    // Enabled ITM stimulus ports
+    ports?: number[];
+    source?: 'server' | 'file' | 'socket';
+    // File or FIFO for the file source, host:port for the socket source
+    path?: string;
+    timestamps?: boolean;
+    // Cycles between DWT PC samples, sampling is disabled when not set
+    pcSampling?: number;
+}
+
+export interface ProfileEntry {
+    name: string;
+    samples: number;
+}
+
+const DEMCR = 0xE000EDFC;
+const DEMCR_TRCENA = 1 << 24;
+
+const TPI_ACPR = 0xE0040010;
+const TPI_SPPR = 0xE00400F0;
+const TPI_FFCR = 0xE0040304;
+const TPI_SPPR_NRZ = 2;
+const TPI_FFCR_TRIGIN = 1 << 8;
+
+const ITM_TER = 0xE0000E00;
+const ITM_TCR = 0xE0000E80;
+const ITM_LAR = 0xE0000FB0;
+const ITM_LAR_KEY = 0xC5ACCE55;
+const ITM_TCR_ITMENA = 1 << 0;
+const ITM_TCR_TSENA = 1 << 1;
+const ITM_TCR_SYNCENA = 1 << 2;
+const ITM_TCR_TXENA = 1 << 3;
+const ITM_TCR_TRACE_BUS_ID = 1 << 16;
+
+const DWT_CTRL = 0xE0001000;
+const DWT_CTRL_CYCCNTENA = 1 << 0;
+const DWT_CTRL_POSTPRESET_SHIFT = 1;
+const DWT_CTRL_CYCTAP = 1 << 9;
+const DWT_CTRL_SYNCTAP_SHIFT = 10;
+const DWT_CTRL_PCSAMPLENA = 1 << 12;
+const DWT_CTRL_SAMPLING_MASK = 0x1FFF;
+
+const SLEEP_NAME = '<sleeping>';
+const UNKNOWN_NAME = '<unknown>';
+
+/**
+ * DWT_CTRL sampling the PC at the closest supported interval, the counter taps cycle bit 6 or bit 10
+ */
+export function resolveDwtCtrl(current: number, interval?: number): number {
+    let value = (current & ~DWT_CTRL_SAMPLING_MASK) | DWT_CTRL_CYCCNTENA | (1 << DWT_CTRL_SYNCTAP_SHIFT);
+
+    if (interval) {
+        const tap = interval > 64 * 16 ? 1024 : 64;
+        const preset = Math.min(Math.max(Math.round(interval / tap) - 1, 0), 15);
+        value |= (preset << DWT_CTRL_POSTPRESET_SHIFT) | DWT_CTRL_PCSAMPLENA | (tap === 1024 ? DWT_CTRL_CYCTAP : 0);
+    }
+
+    return value >>> 0;
+}
+
+/**
+ * Configure the TPIU for SWO in NRZ mode and enable the ITM stimulus ports
+ */
+export async function configureSwo(memory: Pick<MemoryAccess, 'read' | 'write'>, config: SwoConfiguration): Promise<void> {
+    const readRegister = async (address: number) => (await memory.read(address, 4)).readUInt32LE(0);
+    const writeRegister = (address: number, value: number) => {
+        const data = Buffer.alloc(4);
+        data.writeUInt32LE(value >>> 0, 0);
+        return memory.write(address, data);
+    };
+
+    if (config.swoFrequency <= 0 || config.cpuFrequency < config.swoFrequency) {
+        throw new Error(`Invalid SWO frequency ${config.swoFrequency} for a ${config.cpuFrequency} Hz core`);
+    }
+
+    await writeRegister(DEMCR, await readRegister(DEMCR) | DEMCR_TRCENA);
+    await writeRegister(ITM_LAR, ITM_LAR_KEY);
+    await writeRegister(ITM_TCR, 0);
+
+    await writeRegister(TPI_SPPR, TPI_SPPR_NRZ);
+    await writeRegister(TPI_ACPR, Math.round(config.cpuFrequency / config.swoFrequency) - 1);
+    await writeRegister(TPI_FFCR, TPI_FFCR_TRIGIN);
+
+    await writeRegister(DWT_CTRL, resolveDwtCtrl(await readRegister(DWT_CTRL), config.pcSampling));
+
+    const ports = config.ports || [0];
+    await writeRegister(ITM_TER, ports.reduce((mask, port) => mask | (1 << port), 0));
+
+    let control = ITM_TCR_ITMENA | ITM_TCR_SYNCENA | ITM_TCR_TRACE_BUS_ID;
+    if (config.timestamps) {
+        control |= ITM_TCR_TSENA;
+    }
+    if (config.pcSampling) {
+        // Forward DWT packets to the ITM
+        control |= ITM_TCR_TXENA;
+    }
+    await writeRegister(ITM_TCR, control);
+}
+
+export class PcSampleProfile {
+
+    protected samples = new Map<number, number>();
+    protected sleeping = 0;
+
+    public get count(): number {
+        let total = this.sleeping;
+        this.samples.forEach(samples => total += samples);
+        return total;
+    }
+
+    public add(pc: number | undefined) {
+        if (pc === undefined) {
+            this.sleeping++;
+        } else {
+            this.samples.set(pc, (this.samples.get(pc) || 0) + 1);
+        }
+    }
+
+    public reset() {
+        this.samples.clear();
+        this.sleeping = 0;
+    }
+
+    /**
+     * Samples grouped by function, most frequent first
+     */
+    public getFunctions(symbolTable?: SymbolTable): ProfileEntry[] {
+        const functions = new Map<string, number>();
+        this.samples.forEach((samples, pc) => {
+            const symbol = symbolTable && symbolTable.getFunctionAt(pc);
+            const name = symbol ? symbol.name : UNKNOWN_NAME;
+            functions.set(name, (functions.get(name) || 0) + samples);
+        });
+
+        if (this.sleeping) {
+            functions.set(SLEEP_NAME, this.sleeping);
+        }
+
+        return Array.from(functions.entries())
+            .map(([name, samples]) => ({ name, samples }))
+            .sort((a, b) => b.samples - a.samples);
+    }
+
+    public format(symbolTable?: SymbolTable, limit = 10): string[] {
+        const total = this.count;
+        return this.getFunctions(symbolTable).slice(0, limit).map(entry =>
+            `${(entry.samples * 100 / total).toFixed(1).padStart(5)}% ${entry.samples.toString().padStart(8)}  ${entry.name}`);
+    }
+}
+
+/**
+ * Decodes an SWO byte stream, emitting 'data' with the stimulus port and text written to it
+ */
+export class SwoReader extends EventEmitter {
+
+    public readonly profile = new PcSampleProfile();
+    protected decoder = new ItmDecoder();
+    protected textDecoders = new Map<number, StringDecoder>();
+
+    constructor() {
+        super();
+        this.decoder.on('packet', (packet: ItmPacket) => this.handlePacket(packet));
+    }
+
+    public read(stream: Readable) {
+        stream.on('data', (chunk: Buffer) => this.push(chunk));
+        stream.on('error', error => this.emit('error', error));
+    }
+
+    public push(chunk: Buffer) {
+        this.decoder.push(chunk);
+    }
+
+    protected handlePacket(packet: ItmPacket) {
+        switch (packet.type) {
+            case 'instrumentation':
+                const text = this.getTextDecoder(packet.port).write(packet.data);
+                if (text) {
+                    this.emit('data', packet.port, text);
+                }
+                break;
+            case 'hardware':
+                // One byte samples are taken while the core sleeps
+                if (packet.id === HARDWARE_PC_SAMPLE) {
+                    this.profile.add(packet.size === 4 ? packet.value : undefined);
+                }
+                break;
+            case 'overflow':
+                this.emit('overflow');
+                break;
+        }
+    }
+
+    protected getTextDecoder(port: number): StringDecoder {
+        let decoder = this.textDecoders.get(port);
+        if (!decoder) {
+            decoder = new StringDecoder('utf8');
+            this.textDecoders.set(port, decoder);
+        }
+
+        return decoder;
+    }
+}
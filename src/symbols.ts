@@ -24,9 +24,14 @@
 * SOFTWARE.
 */
 
-import { spawnSync } from 'child_process';
+import { execFile } from 'child_process';
 import { platform, EOL } from 'os';
-import { dirname, normalize, basename } from 'path';
+import { dirname, normalize } from 'path';
+import { readCompileUnits, CompileUnit } from './dwarf';
+import {
+    ElfFile, ElfSection, ElfSymbol, SHF_ALLOC, SHF_EXECINSTR, SHF_WRITE, SHN_ABS, SHN_COMMON, SHN_UNDEF,
+    SHT_NOBITS, SHT_REL, SHT_RELA, SHT_STRTAB, SHT_SYMTAB, STB_GLOBAL, STB_LOCAL, STT_FILE, STT_FUNC, STT_OBJECT, STT_SECTION, STV_HIDDEN
+} from './elf';
 
 export enum SymbolType {
     Function,
@@ -42,6 +47,14 @@ export enum SymbolScope {
     Both
 }
 
+export interface SectionInformation {
+    name: string;
+    address: number;
+    size: number;
+    flags: string[];
+    secure?: boolean;
+}
+
 export interface SymbolInformation {
     address: number;
     length: number;
@@ -51,10 +64,12 @@ export interface SymbolInformation {
     scope: SymbolScope;
     file?: string;
     hidden: boolean;
+    secure?: boolean;
 }
 
 const DEFAULT_OBJDUMP = platform() !== 'win32' ? 'arm-none-eabi-objdump' : 'arm-none-eabi-objdump.exe';
-const SYMBOL_REGEX = /^([0-9a-f]{8})\s([lg\ !])([w\ ])([C\ ])([W\ ])([I\ ])([dD\ ])([FfO\ ])\s([^\s]+)\s([0-9a-f]+)\s(.*)\r?$/;
+const SECTION_REGEX = /^\s*\d+\s+(\S+)\s+([0-9a-f]+)\s+([0-9a-f]+)\s+[0-9a-f]+\s+[0-9a-f]+\s+2\*\*\d+\s*$/;
+const SYMBOL_REGEX = /^([0-9a-f]{8,16})\s([lg\ !])([w\ ])([C\ ])([W\ ])([I\ ])([dD\ ])([FfO\ ])\s([^\s]+)\s([0-9a-f]+)\s(.*)\r?$/;
 
 const TYPE_MAP: { [id: string]: SymbolType } = {
     'F': SymbolType.Function,
@@ -70,20 +85,234 @@ const SCOPE_MAP: { [id: string]: SymbolScope } = {
     '!': SymbolScope.Both
 };
 
+/**
+ * Compile units name files with the build directory while gdb may report them relative to it, so match on whole path components
+ */
+function isSameFile(symbolFile: string, file: string): boolean {
+    if (!symbolFile || !file) {
+        return false;
+    }
+
+    const symbolPath = normalize(symbolFile).replace(/\\/g, '/');
+    const path = normalize(file).replace(/\\/g, '/');
+    return symbolPath === path || symbolPath.endsWith(`/${path}`) || path.endsWith(`/${symbolPath}`);
+}
+
 export class SymbolTable {
 
     private symbols: SymbolInformation[] = [];
+    private sections: SectionInformation[] = [];
 
-    constructor(private program: string, private objdump: string = DEFAULT_OBJDUMP) {
+    /**
+     * The security world of the program is only known for TrustZone images
+     */
+    constructor(private program: string, private objdump: string = DEFAULT_OBJDUMP, private secure?: boolean) {
     }
 
     public async loadSymbols(): Promise<void> {
+        try {
+            await this.loadElf();
+        } catch (error) {
+            // Fall back to the toolchain for files the native reader can't handle
+            this.symbols = [];
+            this.sections = [];
+            await this.loadObjdump();
+        }
+
+        if (this.secure !== undefined) {
+            this.symbols.forEach(symbol => symbol.secure = this.secure);
+            this.sections.forEach(section => section.secure = this.secure);
+        }
+    }
+
+    /**
+     * Adds the symbols of an image debugged alongside the program, e.g. the other security world
+     */
+    public async addSymbolFile(file: string, secure?: boolean): Promise<void> {
+        const table = new SymbolTable(file, this.objdump, secure);
+        await table.loadSymbols();
+        this.symbols.push(...table.symbols);
+        this.sections.push(...table.sections);
+    }
+
+    public getSections(): SectionInformation[] {
+        return this.sections;
+    }
+
+    public getSectionAt(address: number): SectionInformation | undefined {
+        return this.sections.find(section => section.flags.indexOf('ALLOC') !== -1
+            && address >= section.address && address < section.address + section.size);
+    }
+
+    public getGlobalVariables(): SymbolInformation[] {
+        const matches = this.symbols.filter(s => s.type === SymbolType.Object && s.scope === SymbolScope.Global);
+        return matches;
+    }
+
+    public getSymbol(name: string): SymbolInformation | undefined {
+        return this.symbols.find(s => s.name === name);
+    }
+
+    /**
+     * Functions and variables with names matching the pattern
+     */
+    public findSymbols(pattern: RegExp): SymbolInformation[] {
+        return this.symbols.filter(s => (s.type === SymbolType.Function || s.type === SymbolType.Object) && pattern.test(s.name));
+    }
+
+    public getFunctionAt(address: number): SymbolInformation | undefined {
+        // Ignore the thumb bit
+        address = address & ~1;
+        return this.symbols.find(s =>
+            s.type === SymbolType.Function
+            && address >= (s.address & ~1)
+            && address < (s.address & ~1) + Math.max(s.length, 1));
+    }
+
+    public getStaticVariables(file: string): SymbolInformation[] {
+        return this.symbols.filter(s =>
+            s.type === SymbolType.Object                                                            // Only load objects
+            && s.scope === SymbolScope.Local                                                        // Scoped to this file
+            && !s.name.startsWith('.')                                                              // Ignore names beginning with '.'
+            && isSameFile(s.file || '', file));                                                     // Match full path or file name
+    }
+
+    private async loadElf(): Promise<void> {
+        const elf = new ElfFile(this.program);
+        await elf.load();
+
+        this.sections = elf.getSections()
+            .filter(section => section.name
+                && ((section.flags & SHF_ALLOC) || [SHT_SYMTAB, SHT_STRTAB, SHT_REL, SHT_RELA].indexOf(section.type) === -1))
+            .map(section => ({
+                name: section.name,
+                address: section.address,
+                size: section.size,
+                flags: this.getSectionFlags(section)
+            }));
+
+        // Symbols can still be listed without debug information
+        let units: CompileUnit[] = [];
+        try {
+            units = await readCompileUnits(elf);
+        } catch (error) {
+            units = [];
+        }
+
+        const variableFiles = new Map<number, string>();
+        units.forEach(unit => unit.variables.forEach(address => variableFiles.set(address, unit.file)));
+
+        const sections = elf.getSections();
+        let currentFile: string | undefined;
+
+        for (const symbol of elf.getSymbols()) {
+            if (symbol.type === STT_SECTION) {
+                continue;
+            }
+
+            if (symbol.type === STT_FILE) {
+                currentFile = symbol.name;
+            }
+
+            const scope = symbol.binding === STB_LOCAL ? SymbolScope.Local
+                : symbol.binding === STB_GLOBAL ? SymbolScope.Global
+                : SymbolScope.Neither;
+
+            this.symbols.push({
+                address: symbol.value,
+                type: symbol.type === STT_FUNC ? SymbolType.Function
+                    : symbol.type === STT_FILE ? SymbolType.File
+                    : symbol.type === STT_OBJECT ? SymbolType.Object
+                    : SymbolType.Normal,
+                scope,
+                section: this.getSymbolSection(symbol, sections),
+                length: symbol.size,
+                name: symbol.name,
+                // Globals follow all local symbols in the table, only debug information can place them
+                file: scope === SymbolScope.Local
+                    ? this.getSymbolFile(symbol, variableFiles, units) || currentFile
+                    : this.getSymbolFile(symbol, variableFiles, units),
+                hidden: symbol.visibility === STV_HIDDEN
+            });
+        }
+    }
+
+    private getSectionFlags(section: ElfSection): string[] {
+        // Match the flags reported by objdump
+        const flags: string[] = [];
+        const hasContents = section.type !== SHT_NOBITS;
+        const isAllocated = (section.flags & SHF_ALLOC) !== 0;
+
+        if (hasContents) {
+            flags.push('CONTENTS');
+        }
+        if (isAllocated) {
+            flags.push('ALLOC');
+        }
+        if (isAllocated && hasContents) {
+            flags.push('LOAD');
+        }
+        if (!(section.flags & SHF_WRITE)) {
+            flags.push('READONLY');
+        }
+        if (section.flags & SHF_EXECINSTR) {
+            flags.push('CODE');
+        } else if (isAllocated && hasContents) {
+            flags.push('DATA');
+        }
+
+        return flags;
+    }
+
+    private getSymbolSection(symbol: ElfSymbol, sections: ElfSection[]): string {
+        switch (symbol.sectionIndex) {
+            case SHN_UNDEF:
+                return '*UND*';
+            case SHN_ABS:
+                return '*ABS*';
+            case SHN_COMMON:
+                return '*COM*';
+            default:
+                const section = sections[symbol.sectionIndex];
+                return section ? section.name : '*UND*';
+        }
+    }
+
+    private getSymbolFile(symbol: ElfSymbol, variableFiles: Map<number, string>, units: CompileUnit[]): string | undefined {
+        if (symbol.type === STT_OBJECT) {
+            return variableFiles.get(symbol.value);
+        }
+
+        if (symbol.type === STT_FUNC) {
+            // Ignore the thumb bit
+            const address = symbol.value & ~1;
+            const unit = units.find(u => u.lowPc !== undefined && u.highPc !== undefined && address >= u.lowPc && address < u.highPc);
+            return unit ? unit.file : undefined;
+        }
+
+        return undefined;
+    }
+
+    private async loadObjdump(): Promise<void> {
         const results = await this.execute();
         const output = results.toString();
         const lines = output.split(EOL);
         let currentFile: string | undefined;
 
-        for (const line of lines) {
+        for (let index = 0; index < lines.length; index++) {
+            const line = lines[index];
+            const section = line.match(SECTION_REGEX);
+            if (section) {
+                // Section flags follow on the next line
+                this.sections.push({
+                    name: section[1],
+                    size: parseInt(section[2], 16),
+                    address: parseInt(section[3], 16),
+                    flags: (lines[index + 1] || '').split(',').map(flag => flag.trim()).filter(flag => flag)
+                });
+                continue;
+            }
+
             const match = line.match(SYMBOL_REGEX);
             if (match) {
                 if (match[7] === 'd' && match[8] === 'f') {
@@ -113,39 +342,24 @@ export class SymbolTable {
         }
     }
 
-    public getGlobalVariables(): SymbolInformation[] {
-        const matches = this.symbols.filter(s => s.type === SymbolType.Object && s.scope === SymbolScope.Global);
-        return matches;
-    }
-
-    public getStaticVariables(file: string): SymbolInformation[] {
-        return this.symbols.filter(s =>
-            s.type === SymbolType.Object                                                            // Only load objects
-            && s.scope === SymbolScope.Local                                                        // Scoped to this file
-            && !s.name.startsWith('.')                                                              // Ignore names beginning with '.'
-            && (normalize(s.file || '') === normalize(file) || normalize(s.file || '') === basename(file)));    // Match full path or file name
-    }
-
     private execute(): Promise<string> {
         return new Promise((resolve, reject) => {
-            try {
-                const { stdout, stderr } = spawnSync(this.objdump, [
-                    '--syms',
-                    this.program
-                ], {
-                    cwd: dirname(this.objdump),
-                    windowsHide: true
-                });
-
-                const error = stderr.toString('utf8');
-                if (error) {
-                    return reject(new Error(error));
+            execFile(this.objdump, [
+                '--section-headers',
+                '--syms',
+                this.program
+            ], {
+                cwd: dirname(this.objdump),
+                maxBuffer: 64 * 1024 * 1024,
+                windowsHide: true
+            }, (error, stdout, stderr) => {
+                // Warnings on stderr don't prevent the symbols being listed
+                if (error || !stdout) {
+                    return reject(new Error(stderr || (error && error.message) || `Unable to read symbols from ${this.program}`));
                 }
 
-                resolve(stdout.toString('utf8'));
-            } catch (error) {
-                return reject(new Error(error));
-            }
+                resolve(stdout);
+            });
         });
     }
 }
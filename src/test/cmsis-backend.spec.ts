@@ -0,0 +1,107 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import * as assert from 'assert';
+import { PassThrough, Writable } from 'stream';
+import { CmsisBackend } from '../cmsis-backend';
+import * as mi from '../mi';
+
+/**
+ * Answers commands with the results recorded for them, as gdb would
+ */
+class TestBackend extends CmsisBackend {
+
+    public commands: string[] = [];
+
+    constructor(results: { [command: string]: string }) {
+        super();
+        const input = new PassThrough();
+        this.parser.parse(input);
+        this.out = new Writable({
+            write: (chunk, _encoding, callback) => {
+                const [, token, command] = /^(\d+)(.*)\n$/.exec(chunk.toString())!;
+                this.commands.push(command);
+                input.write(`${token}^done${results[command] !== undefined ? `,${results[command]}` : ''}\n`);
+                callback();
+            }
+        });
+    }
+}
+
+const ALL_CHANGES = 'changelist=[' +
+    '{name="global_var_count",value="2",in_scope="true",type_changed="false",has_more="0"},' +
+    '{name="var1",value="5",in_scope="true",type_changed="false",has_more="0"},' +
+    '{name="var2",in_scope="false",type_changed="false",has_more="0"},' +
+    '{name="var3.x",value="7",in_scope="true",type_changed="false",has_more="0"}]';
+
+describe('CmsisBackend', () => {
+
+    it('updates every variable object at once, keeping the changes of others for their next update', async () => {
+        const gdb = new TestBackend({ '-var-update 1 *': ALL_CHANGES, '-var-update 1 var1': 'changelist=[]' });
+        const changes = await gdb.sendVarUpdateAll(['global_var_count']);
+        assert.deepStrictEqual(changes.map(change => change.name), ['global_var_count']);
+
+        const var1 = await mi.sendVarUpdate(gdb, { name: 'var1' });
+        assert.deepStrictEqual(var1.changelist.map(change => [change.name, change.value]), [['var1', '5']]);
+
+        // Each change is handed out once
+        assert.deepStrictEqual((await mi.sendVarUpdate(gdb, { name: 'var1' })).changelist, []);
+    });
+
+    it('reports variable objects leaving scope and changes of children', async () => {
+        const gdb = new TestBackend({ '-var-update 1 *': ALL_CHANGES, '-var-update 1 var2': 'changelist=[]',
+            '-var-update 1 var3': 'changelist=[]' });
+        await gdb.sendVarUpdateAll([]);
+
+        assert.deepStrictEqual((await mi.sendVarUpdate(gdb, { name: 'var2' })).changelist.map(change => change.in_scope), ['false']);
+        assert.deepStrictEqual((await mi.sendVarUpdate(gdb, { name: 'var3' })).changelist.map(change => change.name), ['var3.x']);
+    });
+
+    it('prefers changes gdb reports after the full update', async () => {
+        const gdb = new TestBackend({ '-var-update 1 *': ALL_CHANGES,
+            '-var-update 1 var1': 'changelist=[{name="var1",value="6",in_scope="true",type_changed="false",has_more="0"}]' });
+        await gdb.sendVarUpdateAll([]);
+
+        assert.deepStrictEqual((await mi.sendVarUpdate(gdb, { name: 'var1' })).changelist.map(change => change.value), ['6']);
+    });
+
+    it('drops the changes of deleted variable objects', async () => {
+        const gdb = new TestBackend({ '-var-update 1 *': ALL_CHANGES, '-var-update 1 var1': 'changelist=[]' });
+        await gdb.sendVarUpdateAll([]);
+        await mi.sendVarDelete(gdb, { varname: 'var1' });
+
+        assert.deepStrictEqual((await mi.sendVarUpdate(gdb, { name: 'var1' })).changelist, []);
+        assert.deepStrictEqual(gdb.commands, ['-var-update 1 *', '-var-delete var1', '-var-update 1 var1']);
+    });
+});
+
+describe('sendDataEvaluateExpression', () => {
+
+    it('escapes quotes and backslashes in the expression', async () => {
+        const gdb = new TestBackend({});
+        await mi.sendDataEvaluateExpression(gdb, 's == "a\\b"');
+        assert.deepStrictEqual(gdb.commands, ['-data-evaluate-expression "s == \\"a\\\\b\\""']);
+    });
+});
@@ -0,0 +1,112 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import * as assert from 'assert';
+import {
+    decodeControl, decodeFaultStatus, decodeXpsr, getExceptionName, getExceptionNumber, getExcReturnStack, hasExtendedFrame,
+    isExcReturn, isFaultException, parseExceptionFrame, parseFaultStatus, SCB_FAULT_REGISTERS_SIZE
+} from '../cortex-m';
+
+describe('xPSR', () => {
+
+    it('reads the exception number', () => {
+        assert.strictEqual(getExceptionNumber(0x21000003), 3);
+        assert.strictEqual(getExceptionNumber(0x01000000), 0);
+        assert.strictEqual(getExceptionNumber(0x01000123), 0x123);
+    });
+
+    it('names exceptions and interrupts', () => {
+        assert.strictEqual(getExceptionName(0), 'Thread mode');
+        assert.strictEqual(getExceptionName(5), 'BusFault');
+        assert.strictEqual(getExceptionName(9), 'Exception 9');
+        assert.strictEqual(getExceptionName(16), 'IRQ0');
+        assert.strictEqual(getExceptionName(0x123), 'IRQ275');
+    });
+
+    it('identifies fault exceptions', () => {
+        assert.deepStrictEqual([1, 2, 3, 4, 5, 6, 7, 11, 16].filter(isFaultException), [3, 4, 5, 6, 7]);
+    });
+
+    it('decodes flags and the active exception', () => {
+        assert.strictEqual(decodeXpsr(0xA1000006), 'N=1 Z=0 C=1 V=0 Q=0 T=1 ISR=6 (UsageFault)');
+        assert.strictEqual(decodeXpsr(0x01000010), 'N=0 Z=0 C=0 V=0 Q=0 T=1 ISR=16 (IRQ0)');
+    });
+
+    it('decodes CONTROL', () => {
+        assert.strictEqual(decodeControl(0), 'privileged, MSP, FP inactive');
+        assert.strictEqual(decodeControl(7), 'unprivileged, PSP, FP active');
+    });
+});
+
+describe('EXC_RETURN', () => {
+
+    it('recognises EXC_RETURN values', () => {
+        assert.ok(isExcReturn(0xFFFFFFFD));
+        assert.ok(isExcReturn(0xFFFFFFB0));
+        assert.ok(!isExcReturn(0x08000101));
+    });
+
+    it('selects the stack and frame type', () => {
+        assert.strictEqual(getExcReturnStack(0xFFFFFFF9), 'msp');
+        assert.strictEqual(getExcReturnStack(0xFFFFFFFD), 'psp');
+        assert.ok(!hasExtendedFrame(0xFFFFFFFD));
+        assert.ok(hasExtendedFrame(0xFFFFFFED));
+    });
+});
+
+describe('fault status', () => {
+
+    it('parses the SCB fault registers', () => {
+        const data = Buffer.alloc(SCB_FAULT_REGISTERS_SIZE);
+        data.writeUInt32LE(0x00008200, 0);
+        data.writeUInt32LE(0x40000000, 4);
+        data.writeUInt32LE(0x11111111, 12);
+        data.writeUInt32LE(0x20001000, 16);
+        assert.deepStrictEqual(parseFaultStatus(data), { cfsr: 0x8200, hfsr: 0x40000000, mmfar: 0x11111111, bfar: 0x20001000 });
+    });
+
+    it('lists the causes of a fault', () => {
+        assert.deepStrictEqual(decodeFaultStatus({ cfsr: 0x8200, hfsr: 0x40000000, mmfar: 0, bfar: 0x20001000 }), [
+            'Configurable fault escalated to HardFault (FORCED)',
+            'Precise data bus error (PRECISERR)',
+            'Bus fault address: 0x20001000'
+        ]);
+        assert.deepStrictEqual(decodeFaultStatus({ cfsr: 0x02000082, hfsr: 0x80000000, mmfar: 0xFFFFFFF0, bfar: 0 }), [
+            'Breakpoint or debug event escalated to HardFault (DEBUGEVT)',
+            'Data access violation (DACCVIOL)',
+            'Divide by zero (DIVBYZERO)',
+            'MemManage fault address: 0xFFFFFFF0'
+        ]);
+        assert.deepStrictEqual(decodeFaultStatus({ cfsr: 0, hfsr: 0, mmfar: 0, bfar: 0 }), []);
+    });
+
+    it('parses the stacked exception frame', () => {
+        const data = Buffer.alloc(32);
+        [0, 1, 2, 3, 12, 0x08000201, 0x08000300, 0x21000000].forEach((value, i) => data.writeUInt32LE(value, i * 4));
+        assert.deepStrictEqual(parseExceptionFrame(data), {
+            r0: 0, r1: 1, r2: 2, r3: 3, r12: 12, lr: 0x08000201, pc: 0x08000300, xpsr: 0x21000000
+        });
+    });
+});
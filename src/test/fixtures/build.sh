@@ -0,0 +1,8 @@
+#!/bin/sh
+# Builds the ELF fixtures, set CC to a cross compiler to build them for another architecture
+set -e
+cd "$(dirname "$0")"
+CC="${CC:-gcc -m32}"
+for version in 4 5; do
+    (cd src && $CC -g -gdwarf-$version -O0 -fdebug-prefix-map="$(pwd)"=/build -Wl,--build-id=none -nostdlib -static -fno-pic -no-pie -Wl,-e,main -o ../dwarf$version.elf a.c b.c)
+done
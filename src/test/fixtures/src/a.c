@@ -0,0 +1,11 @@
+static int count;
+static const char greeting[] = "hello";
+int shared = 1;
+
+int b_step(void);
+
+int main(void)
+{
+    count += greeting[0] + b_step();
+    return count + shared;
+}
@@ -0,0 +1,8 @@
+static int count = 2;
+static short history[4];
+
+int b_step(void)
+{
+    history[count & 3] = (short)count;
+    return ++count;
+}
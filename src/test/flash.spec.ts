@@ -0,0 +1,75 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import * as assert from 'assert';
+import { GDBBackend } from 'cdt-gdb-adapter/dist/GDBBackend';
+import { MIParser } from 'cdt-gdb-adapter/dist/MIParser';
+import { PassThrough } from 'stream';
+import { parseDownloadStatus } from '../flash';
+
+// Status records of arm-none-eabi-gdb loading an image over MI
+const DOWNLOAD_RECORDS = [
+    '+download,{section=".text",section-size="6668",total-size="9880"}',
+    '+download,{section=".text",section-sent="4096",section-size="6668",total-sent="4096",total-size="9880"}',
+    '+download,{section=".data",section-sent="2470",section-size="3212",total-sent="9138",total-size="9880"}'
+];
+
+async function parseRecords(records: string[]): Promise<any[]> {
+    const gdb = new GDBBackend();
+    const parser = new MIParser(gdb);
+    const stream = new PassThrough();
+    const statuses: any[] = [];
+
+    gdb.on('statusAsync', (statusClass: string, data: any) => {
+        if (statusClass === 'download') {
+            statuses.push(data);
+        }
+    });
+    parser.parse(stream);
+
+    const end = new Promise(resolve => stream.on('end', resolve));
+    stream.end(records.map(record => `${record}\n`).join(''));
+    await end;
+    return statuses;
+}
+
+describe('parseDownloadStatus', () => {
+
+    it('reads progress from the tuple of a parsed download record', async () => {
+        const statuses = await parseRecords(DOWNLOAD_RECORDS);
+        assert.strictEqual(statuses.length, 3);
+
+        const progress = statuses.map(parseDownloadStatus);
+        assert.strictEqual(progress[0], undefined);
+        assert.deepStrictEqual(progress[1], { section: '.text', percent: 4096 * 100 / 9880 });
+        assert.deepStrictEqual(progress[2], { section: '.data', percent: 9138 * 100 / 9880 });
+    });
+
+    it('reads progress from named results', () => {
+        assert.deepStrictEqual(parseDownloadStatus({ 'section': '.text', 'total-sent': '10', 'total-size': '20' }),
+            { section: '.text', percent: 50 });
+        assert.strictEqual(parseDownloadStatus({ 'total-sent': '10', 'total-size': '0' }), undefined);
+    });
+});
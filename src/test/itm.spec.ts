@@ -0,0 +1,74 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import * as assert from 'assert';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { HARDWARE_EXCEPTION_TRACE, HARDWARE_PC_SAMPLE, ItmDecoder, ItmPacket } from '../itm';
+
+const FIXTURES = join(__dirname, '..', '..', 'src', 'test', 'fixtures');
+
+function decode(chunks: Buffer[]): ItmPacket[] {
+    const decoder = new ItmDecoder();
+    const packets: ItmPacket[] = [];
+    decoder.on('packet', (packet: ItmPacket) => packets.push(packet));
+    chunks.forEach(chunk => decoder.push(chunk));
+    return packets;
+}
+
+describe('ItmDecoder', () => {
+
+    const capture = readFileSync(join(FIXTURES, 'itm-capture.bin'));
+
+    it('decodes a capture', () => {
+        const packets = decode([capture]);
+
+        assert.deepStrictEqual(packets.map(packet => packet.type), [
+            'sync',
+            'instrumentation', 'instrumentation', 'instrumentation', 'instrumentation', 'instrumentation', 'instrumentation',
+            'instrumentation', 'instrumentation',
+            'timestamp', 'overflow',
+            'hardware', 'hardware', 'hardware', 'hardware', 'hardware',
+            'globalTimestamp', 'sync', 'instrumentation'
+        ]);
+        assert.deepStrictEqual(packets[4], { type: 'instrumentation', port: 0, data: Buffer.from('wör') });
+        assert.deepStrictEqual(packets[8], { type: 'instrumentation', port: 1, data: Buffer.from('x') });
+        assert.deepStrictEqual(packets[9], { type: 'timestamp', value: 133, control: 0 });
+        assert.deepStrictEqual(packets[11], { type: 'hardware', id: HARDWARE_PC_SAMPLE, value: 0x08000101, size: 4 });
+        assert.deepStrictEqual(packets[14], { type: 'hardware', id: HARDWARE_PC_SAMPLE, value: 0, size: 1 });
+        assert.deepStrictEqual(packets[15], { type: 'hardware', id: HARDWARE_EXCEPTION_TRACE, value: 0x1011, size: 2 });
+        assert.deepStrictEqual(packets[16], { type: 'globalTimestamp', value: 257, high: false });
+    });
+
+    it('decodes packets split across chunks', () => {
+        const chunks = Array.from(capture).map(byte => Buffer.from([byte]));
+        assert.deepStrictEqual(decode(chunks), decode([capture]));
+    });
+
+    it('only synchronises after enough zero bytes', () => {
+        const packets = decode([Buffer.from([0, 0, 0, 0x80, 0x01, 0x41])]);
+        assert.deepStrictEqual(packets.map(packet => packet.type), ['instrumentation']);
+    });
+});
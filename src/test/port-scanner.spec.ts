@@ -0,0 +1,120 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import * as assert from 'assert';
+import { spawnSync } from 'child_process';
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { createServer, Server } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PortScanner } from '../port-scanner';
+
+const START = 51730;
+
+function getLockFile(port: number): string {
+    return join(tmpdir(), `cmsis-debug-port-${port}.lock`);
+}
+
+function listen(port: number): Promise<Server> {
+    return new Promise((resolve, reject) => {
+        const server = createServer();
+        server.once('error', reject);
+        server.listen(port, () => resolve(server));
+    });
+}
+
+function close(server: Server): Promise<void> {
+    return new Promise(resolve => server.close(() => resolve()));
+}
+
+describe('PortScanner', () => {
+
+    const scanners: PortScanner[] = [];
+
+    function createScanner(range?: { start: number, end: number }): PortScanner {
+        const scanner = new PortScanner(range);
+        scanners.push(scanner);
+        return scanner;
+    }
+
+    afterEach(() => {
+        scanners.splice(0).forEach(scanner => scanner.releaseAll());
+        for (let port = START; port < START + 10; port++) {
+            if (existsSync(getLockFile(port))) {
+                unlinkSync(getLockFile(port));
+            }
+        }
+    });
+
+    it('reserves free ports with a lock file until released', async () => {
+        const scanner = createScanner();
+        const port = await scanner.findFreePort(START);
+        assert.strictEqual(port, START);
+        assert.strictEqual(readFileSync(getLockFile(START), 'utf8'), process.pid.toString());
+
+        // Neither this nor another scanner hands out a reserved port
+        assert.strictEqual(await createScanner().findFreePort(START), START + 1);
+
+        scanner.release(START);
+        assert.ok(!existsSync(getLockFile(START)));
+        assert.strictEqual(await createScanner().findFreePort(START), START);
+    });
+
+    it('searches the configured range', async () => {
+        assert.strictEqual(await createScanner({ start: START + 2, end: START + 3 }).findFreePort(), START + 2);
+        // The only port of the range is reserved by the first scanner
+        assert.strictEqual(await createScanner({ start: START + 2, end: START + 2 }).findFreePort(), undefined);
+    });
+
+    it('skips ports in use', async () => {
+        const server = await listen(START);
+        try {
+            assert.strictEqual(await createScanner().findFreePort(START), START + 1);
+        } finally {
+            await close(server);
+        }
+    });
+
+    it('respects locks of running processes and takes over locks of ended ones', async () => {
+        writeFileSync(getLockFile(START), process.ppid.toString());
+        const ended = spawnSync(process.execPath, ['-e', '']).pid;
+        writeFileSync(getLockFile(START + 1), ended.toString());
+
+        assert.strictEqual(await createScanner().findFreePort(START), START + 1);
+        assert.strictEqual(readFileSync(getLockFile(START + 1), 'utf8'), process.pid.toString());
+    });
+
+    it('waits for a server to listen', async () => {
+        const scanner = createScanner();
+        await assert.rejects(scanner.waitForPort(START, 200), /Timeout waiting for port/);
+
+        const server = await listen(START);
+        try {
+            await scanner.waitForPort(START, 200);
+        } finally {
+            await close(server);
+        }
+    });
+});
@@ -0,0 +1,95 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import * as assert from 'assert';
+import { formatHexDump, formatRegisters, formatSymbols, globToRegExp, parseReplInput } from '../repl';
+import { SymbolScope, SymbolType } from '../symbols';
+
+describe('parseReplInput', () => {
+
+    it('splits adapter commands into name and arguments', () => {
+        assert.deepStrictEqual(parseReplInput(':mem  0x20000000\t16 '), { name: 'mem', args: ['0x20000000', '16'] });
+        assert.deepStrictEqual(parseReplInput('  :help'), { name: 'help', args: [] });
+    });
+
+    it('leaves other input to gdb', () => {
+        assert.strictEqual(parseReplInput('info registers'), undefined);
+        assert.strictEqual(parseReplInput('p a ? b : c'), undefined);
+    });
+});
+
+describe('globToRegExp', () => {
+
+    it('matches wildcards against whole names', () => {
+        const pattern = globToRegExp('HAL_*_Init?');
+        assert.ok(pattern.test('HAL_GPIO_Init2'));
+        assert.ok(!pattern.test('HAL_GPIO_Init'));
+        assert.ok(!pattern.test('xHAL_GPIO_Init2'));
+    });
+
+    it('matches plain patterns anywhere in names', () => {
+        assert.ok(globToRegExp('Init').test('HAL_Init'));
+        assert.ok(!globToRegExp('Init').test('init'));
+    });
+
+    it('escapes regular expression characters', () => {
+        assert.ok(globToRegExp('a.b').test('a.b'));
+        assert.ok(!globToRegExp('a.b').test('axb'));
+        assert.ok(globToRegExp('operator()*').test('operator()(int)'));
+    });
+});
+
+describe('formatHexDump', () => {
+
+    it('shows 16 bytes per line with their text', () => {
+        const data = Buffer.from('Hello, world!\n\u0000ÿABC', 'latin1');
+        assert.strictEqual(formatHexDump(0x20000000, data), [
+            '0x20000000  48 65 6c 6c 6f 2c 20 77 6f 72 6c 64 21 0a 00 ff  Hello, world!...',
+            '0x20000010  41 42 43                                         ABC'
+        ].join('\n'));
+    });
+
+    it('is empty without data', () => {
+        assert.strictEqual(formatHexDump(0, Buffer.alloc(0)), '');
+    });
+});
+
+describe('formatRegisters', () => {
+
+    it('aligns register values', () => {
+        assert.strictEqual(formatRegisters(new Map([['r0', 1], ['xpsr', 0x21000000]])), 'r0    0x00000001\nxpsr  0x21000000');
+    });
+});
+
+describe('formatSymbols', () => {
+
+    it('lists symbols with their kind and file', () => {
+        const common = { length: 4, section: '.text', scope: SymbolScope.Global, hidden: false };
+        assert.strictEqual(formatSymbols([
+            { ...common, address: 0x08000100, name: 'main', type: SymbolType.Function, file: 'main.c' },
+            { ...common, address: 0x20000000, name: 'counter', type: SymbolType.Object }
+        ]), '0x08000100  main (function, main.c)\n0x20000000  counter (variable)');
+    });
+});
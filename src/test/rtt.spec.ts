@@ -0,0 +1,159 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import * as assert from 'assert';
+import { MemoryAccess, parseRttBuffer, RTT_BUFFER_SIZE, RTT_HEADER_SIZE, RTT_ID, RttPoller } from '../rtt';
+
+const BASE = 0x20000000;
+const CONTROL_BLOCK = BASE + 0x40;
+const UP_DESCRIPTOR = CONTROL_BLOCK + RTT_HEADER_SIZE;
+const DOWN_DESCRIPTOR = UP_DESCRIPTOR + RTT_BUFFER_SIZE;
+const UP_BUFFER = BASE + 0x100;
+const DOWN_BUFFER = BASE + 0x200;
+const BUFFER_SIZE = 16;
+
+/**
+ * Target memory holding a control block with one up and one down buffer
+ */
+class TestMemory implements MemoryAccess {
+
+    public accessible = true;
+    public data = Buffer.alloc(0x400);
+
+    constructor() {
+        this.data.write(RTT_ID, CONTROL_BLOCK - BASE, 'latin1');
+        this.data.writeUInt32LE(1, CONTROL_BLOCK - BASE + 16);
+        this.data.writeUInt32LE(1, CONTROL_BLOCK - BASE + 20);
+        this.setDescriptor(UP_DESCRIPTOR, UP_BUFFER, 0, 0);
+        this.setDescriptor(DOWN_DESCRIPTOR, DOWN_BUFFER, 0, 0);
+    }
+
+    public setDescriptor(descriptor: number, buffer: number, writeOffset: number, readOffset: number) {
+        const offset = descriptor - BASE;
+        this.data.writeUInt32LE(buffer, offset + 4);
+        this.data.writeUInt32LE(BUFFER_SIZE, offset + 8);
+        this.data.writeUInt32LE(writeOffset, offset + 12);
+        this.data.writeUInt32LE(readOffset, offset + 16);
+    }
+
+    public getDescriptor(descriptor: number) {
+        return parseRttBuffer(this.data, descriptor - BASE);
+    }
+
+    public isAccessible(): boolean {
+        return this.accessible;
+    }
+
+    public async read(address: number, length: number): Promise<Buffer> {
+        return Buffer.from(this.data.slice(address - BASE, address - BASE + length));
+    }
+
+    public async write(address: number, data: Buffer): Promise<void> {
+        data.copy(this.data, address - BASE);
+    }
+}
+
+async function poll(poller: RttPoller): Promise<string[]> {
+    const output: string[] = [];
+    const listener = (_channel: number, text: string) => output.push(text);
+    poller.on('data', listener);
+    await poller.poll();
+    poller.off('data', listener);
+    return output;
+}
+
+describe('RttPoller', () => {
+
+    let memory: TestMemory;
+    let poller: RttPoller;
+
+    beforeEach(() => {
+        memory = new TestMemory();
+        poller = new RttPoller(memory, BASE, 0x100);
+    });
+
+    it('finds the control block within the search range', async () => {
+        memory.data.write('hello', UP_BUFFER - BASE);
+        memory.setDescriptor(UP_DESCRIPTOR, UP_BUFFER, 5, 0);
+        assert.deepStrictEqual(await poll(poller), ['hello']);
+    });
+
+    it('waits for the control block to be initialised', async () => {
+        memory.data.fill(0, CONTROL_BLOCK - BASE, CONTROL_BLOCK - BASE + RTT_ID.length);
+        assert.deepStrictEqual(await poll(new RttPoller(memory, CONTROL_BLOCK)), []);
+    });
+
+    it('reads up to the write offset and advances the read offset', async () => {
+        memory.data.write('abcdef', UP_BUFFER - BASE);
+        memory.setDescriptor(UP_DESCRIPTOR, UP_BUFFER, 6, 2);
+        assert.deepStrictEqual(await poll(poller), ['cdef']);
+        assert.strictEqual(memory.getDescriptor(UP_DESCRIPTOR).readOffset, 6);
+        assert.deepStrictEqual(await poll(poller), []);
+    });
+
+    it('reads data wrapping around the end of the buffer', async () => {
+        memory.data.write('0123456789ABCDEF', UP_BUFFER - BASE);
+        memory.setDescriptor(UP_DESCRIPTOR, UP_BUFFER, 3, 13);
+        assert.deepStrictEqual(await poll(poller), ['DEF012']);
+        assert.strictEqual(memory.getDescriptor(UP_DESCRIPTOR).readOffset, 3);
+    });
+
+    it('keeps characters split between polls', async () => {
+        memory.data.write('é', UP_BUFFER - BASE);
+        memory.setDescriptor(UP_DESCRIPTOR, UP_BUFFER, 1, 0);
+        assert.deepStrictEqual(await poll(poller), []);
+        memory.setDescriptor(UP_DESCRIPTOR, UP_BUFFER, 2, 1);
+        assert.deepStrictEqual(await poll(poller), ['é']);
+    });
+
+    it('skips invalid descriptors and inaccessible memory', async () => {
+        memory.setDescriptor(UP_DESCRIPTOR, UP_BUFFER, BUFFER_SIZE, 0);
+        assert.deepStrictEqual(await poll(poller), []);
+
+        memory.setDescriptor(UP_DESCRIPTOR, UP_BUFFER, 1, 0);
+        memory.accessible = false;
+        assert.deepStrictEqual(await poll(poller), []);
+    });
+
+    it('writes to the down-buffer, wrapping around its end', async () => {
+        memory.setDescriptor(DOWN_DESCRIPTOR, DOWN_BUFFER, 14, 4);
+        assert.strictEqual(await poller.write(Buffer.from('wxyz')), 4);
+        assert.strictEqual(memory.data.toString('latin1', DOWN_BUFFER - BASE + 14, DOWN_BUFFER - BASE + 16), 'wx');
+        assert.strictEqual(memory.data.toString('latin1', DOWN_BUFFER - BASE, DOWN_BUFFER - BASE + 2), 'yz');
+        assert.strictEqual(memory.getDescriptor(DOWN_DESCRIPTOR).writeOffset, 2);
+    });
+
+    it('leaves one byte free in the down-buffer', async () => {
+        memory.setDescriptor(DOWN_DESCRIPTOR, DOWN_BUFFER, 2, 5);
+        assert.strictEqual(await poller.write(Buffer.from('abcdef')), 2);
+        assert.strictEqual(memory.getDescriptor(DOWN_DESCRIPTOR).writeOffset, 4);
+        assert.strictEqual(await poller.write(Buffer.from('g')), 0);
+    });
+
+    it('refuses to write while memory is inaccessible', async () => {
+        memory.accessible = false;
+        await assert.rejects(poller.write(Buffer.from('a')), /while the target is running/);
+    });
+});
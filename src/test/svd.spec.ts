@@ -0,0 +1,180 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import * as assert from 'assert';
+import { getFieldValue, parseInteger, setFieldValue, SvdAccess, SvdField, SvdFile, SvdPeripheral } from '../svd';
+
+const SVD = `<?xml version="1.0" encoding="utf-8"?>
+<device>
+  <name>TEST</name>
+  <size>32</size>
+  <resetValue>0</resetValue>
+  <peripherals>
+    <peripheral>
+      <name>TIMER0</name>
+      <description>Timer</description>
+      <groupName>TIMER</groupName>
+      <baseAddress>0x40000000</baseAddress>
+      <access>read-write</access>
+      <addressBlock><offset>0</offset><size>0x1000</size></addressBlock>
+      <registers>
+        <register>
+          <name>CTRL</name>
+          <addressOffset>0x0</addressOffset>
+          <resetValue>0x3</resetValue>
+          <fields>
+            <field><name>EN</name><bitOffset>0</bitOffset><bitWidth>1</bitWidth></field>
+            <field><name>MODE</name><bitRange>[3:1]</bitRange>
+              <enumeratedValues>
+                <enumeratedValue><name>ONESHOT</name><value>1</value></enumeratedValue>
+              </enumeratedValues>
+            </field>
+            <field><name>COUNT</name><lsb>4</lsb><msb>15</msb><access>read-only</access></field>
+          </fields>
+        </register>
+        <register>
+          <dim>2</dim>
+          <dimIncrement>4</dimIncrement>
+          <name>CC[%s]</name>
+          <addressOffset>0x10</addressOffset>
+        </register>
+        <register>
+          <dim>2</dim>
+          <dimIncrement>2</dimIncrement>
+          <dimIndex>A,B</dimIndex>
+          <name>HALF%s</name>
+          <addressOffset>0x20</addressOffset>
+          <size>16</size>
+          <access>write-only</access>
+        </register>
+        <cluster>
+          <dim>2</dim>
+          <dimIncrement>0x10</dimIncrement>
+          <name>CH%s</name>
+          <addressOffset>0x100</addressOffset>
+          <register><name>CFG</name><addressOffset>0x4</addressOffset></register>
+        </cluster>
+      </registers>
+    </peripheral>
+    <peripheral derivedFrom="TIMER0">
+      <name>TIMER1</name>
+      <baseAddress>0x40001000</baseAddress>
+    </peripheral>
+  </peripherals>
+</device>`;
+
+function field(bitOffset: number, bitWidth: number): SvdField {
+    return { name: 'FIELD', bitOffset, bitWidth, access: SvdAccess.ReadWrite, enumeratedValues: [] };
+}
+
+describe('SvdFile', () => {
+
+    let peripherals: SvdPeripheral[];
+
+    before(async () => {
+        const svd = new SvdFile('test.svd');
+        await svd.loadPeripherals(SVD);
+        peripherals = svd.getPeripherals();
+    });
+
+    it('reads peripherals, registers and fields', () => {
+        const timer = peripherals[0];
+        assert.strictEqual(timer.name, 'TIMER0');
+        assert.strictEqual(timer.groupName, 'TIMER');
+        assert.strictEqual(timer.baseAddress, 0x40000000);
+        assert.deepStrictEqual(timer.addressBlocks, [{ offset: 0, size: 0x1000 }]);
+
+        const ctrl = timer.registers[0];
+        assert.strictEqual(ctrl.name, 'CTRL');
+        assert.strictEqual(ctrl.resetValue, 3);
+        assert.deepStrictEqual(ctrl.fields.map(f => [f.name, f.bitOffset, f.bitWidth, f.access]), [
+            ['COUNT', 4, 12, SvdAccess.ReadOnly],
+            ['MODE', 1, 3, SvdAccess.ReadWrite],
+            ['EN', 0, 1, SvdAccess.ReadWrite]
+        ]);
+        assert.deepStrictEqual(ctrl.fields[1].enumeratedValues, [{ name: 'ONESHOT', description: undefined, value: 1, isDefault: false }]);
+    });
+
+    it('expands register and cluster arrays', () => {
+        const registers = peripherals[0].registers.map(reg => [reg.name, reg.addressOffset, reg.size, reg.access]);
+        assert.deepStrictEqual(registers, [
+            ['CTRL', 0x0, 32, SvdAccess.ReadWrite],
+            ['CC[0]', 0x10, 32, SvdAccess.ReadWrite],
+            ['CC[1]', 0x14, 32, SvdAccess.ReadWrite],
+            ['HALFA', 0x20, 16, SvdAccess.WriteOnly],
+            ['HALFB', 0x22, 16, SvdAccess.WriteOnly],
+            ['CH0.CFG', 0x104, 32, SvdAccess.ReadWrite],
+            ['CH1.CFG', 0x114, 32, SvdAccess.ReadWrite]
+        ]);
+    });
+
+    it('inherits derived peripherals', () => {
+        const timer = peripherals[1];
+        assert.strictEqual(timer.name, 'TIMER1');
+        assert.strictEqual(timer.baseAddress, 0x40001000);
+        assert.strictEqual(timer.description, 'Timer');
+        assert.deepStrictEqual(timer.registers, peripherals[0].registers);
+        assert.deepStrictEqual(timer.addressBlocks, peripherals[0].addressBlocks);
+    });
+
+    it('rejects files which are not SVD files', async () => {
+        await assert.rejects(new SvdFile('test.xml').loadPeripherals('<package/>'), /is not an SVD file/);
+    });
+});
+
+describe('parseInteger', () => {
+
+    it('parses scaled integers in every notation', () => {
+        assert.strictEqual(parseInteger('0x1F'), 0x1F);
+        assert.strictEqual(parseInteger('#101'), 5);
+        assert.strictEqual(parseInteger('0b11'), 3);
+        assert.strictEqual(parseInteger(' 42 '), 42);
+        assert.strictEqual(parseInteger('4k'), 4096);
+        assert.strictEqual(parseInteger('#1x1'), undefined);
+        assert.strictEqual(parseInteger(undefined), undefined);
+    });
+});
+
+describe('field values', () => {
+
+    it('reads fields', () => {
+        assert.strictEqual(getFieldValue(field(4, 4), 0x12345678), 0x7);
+        assert.strictEqual(getFieldValue(field(1, 31), 0xFFFFFFFF), 0x7FFFFFFF);
+        assert.strictEqual(getFieldValue(field(0, 32), 0xFFFFFFFF), 0xFFFFFFFF);
+    });
+
+    it('writes fields, keeping the other bits', () => {
+        assert.strictEqual(setFieldValue(field(4, 4), 0x12345678, 0xA), 0x123456A8);
+        assert.strictEqual(setFieldValue(field(1, 31), 0x1, 0x7FFFFFFF), 0xFFFFFFFF);
+        assert.strictEqual(setFieldValue(field(0, 31), 0x80000000, 0), 0x80000000);
+        assert.strictEqual(setFieldValue(field(0, 32), 0, 0xFFFFFFFF), 0xFFFFFFFF);
+    });
+
+    it('rejects values which do not fit', () => {
+        assert.throws(() => setFieldValue(field(0, 4), 0, 0x10), /doesn't fit in 4 bit field/);
+        assert.throws(() => setFieldValue(field(0, 31), 0, 0x80000000), /doesn't fit in 31 bit field/);
+        assert.throws(() => setFieldValue(field(0, 4), 0, -1), /doesn't fit/);
+    });
+});
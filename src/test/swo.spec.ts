@@ -0,0 +1,90 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import * as assert from 'assert';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { PcSampleProfile, SwoReader, resolveDwtCtrl } from '../swo';
+
+const FIXTURES = join(__dirname, '..', '..', 'src', 'test', 'fixtures');
+
+describe('SwoReader', () => {
+
+    const capture = readFileSync(join(FIXTURES, 'itm-capture.bin'));
+
+    it('reports text per stimulus port', () => {
+        const reader = new SwoReader();
+        const output = new Map<number, string>();
+        reader.on('data', (port: number, text: string) => output.set(port, (output.get(port) || '') + text));
+        reader.push(capture);
+
+        assert.strictEqual(output.get(0), 'Hi wöré!\n');
+        assert.strictEqual(output.get(1), 'xy');
+    });
+
+    it('reports overflows', () => {
+        const reader = new SwoReader();
+        let overflows = 0;
+        reader.on('overflow', () => overflows++);
+        reader.push(capture);
+
+        assert.strictEqual(overflows, 1);
+    });
+
+    it('profiles PC samples', () => {
+        const reader = new SwoReader();
+        reader.push(capture);
+
+        assert.strictEqual(reader.profile.count, 4);
+        assert.deepStrictEqual(reader.profile.getFunctions(), [
+            { name: '<unknown>', samples: 3 },
+            { name: '<sleeping>', samples: 1 }
+        ]);
+    });
+});
+
+describe('PcSampleProfile', () => {
+
+    it('resets its samples', () => {
+        const profile = new PcSampleProfile();
+        profile.add(0x08000100);
+        profile.add(undefined);
+        profile.reset();
+
+        assert.strictEqual(profile.count, 0);
+        assert.deepStrictEqual(profile.format(), []);
+    });
+});
+
+describe('resolveDwtCtrl', () => {
+
+    it('samples at the closest supported interval', () => {
+        // 64 cycle tap with a preset of 15 for 1024 cycles
+        assert.strictEqual(resolveDwtCtrl(0, 1024), 0x1000 | (15 << 1) | (1 << 10) | 1);
+        // 1024 cycle tap with a preset of 3 for 4096 cycles
+        assert.strictEqual(resolveDwtCtrl(0, 4096), 0x1000 | 0x200 | (3 << 1) | (1 << 10) | 1);
+        assert.strictEqual(resolveDwtCtrl(0), (1 << 10) | 1);
+    });
+});
@@ -0,0 +1,88 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import * as assert from 'assert';
+import { join } from 'path';
+import { readCompileUnits } from '../dwarf';
+import { ElfFile } from '../elf';
+import { SymbolScope, SymbolTable, SymbolType } from '../symbols';
+
+const FIXTURES = join(__dirname, '..', '..', 'src', 'test', 'fixtures');
+
+for (const version of [4, 5]) {
+    const program = join(FIXTURES, `dwarf${version}.elf`);
+
+    describe(`SymbolTable with DWARF ${version}`, () => {
+
+        let symbolTable: SymbolTable;
+
+        before(async () => {
+            symbolTable = new SymbolTable(program);
+            await symbolTable.loadSymbols();
+        });
+
+        it('reads symbols', () => {
+            const main = symbolTable.getSymbol('main');
+            assert.ok(main);
+            assert.strictEqual(main!.type, SymbolType.Function);
+            assert.strictEqual(main!.scope, SymbolScope.Global);
+            assert.strictEqual(symbolTable.getFunctionAt(main!.address + 1), main);
+        });
+
+        it('reads global variables', () => {
+            const names = symbolTable.getGlobalVariables().map(symbol => symbol.name);
+            assert.deepStrictEqual(names, ['shared']);
+        });
+
+        it('reads sections', () => {
+            const text = symbolTable.getSections().find(section => section.name === '.text');
+            assert.ok(text);
+            assert.deepStrictEqual(text!.flags, ['CONTENTS', 'ALLOC', 'LOAD', 'READONLY', 'CODE']);
+        });
+
+        it('finds static variables by file name', () => {
+            assert.deepStrictEqual(symbolTable.getStaticVariables('a.c').map(symbol => symbol.name).sort(), ['count', 'greeting']);
+            assert.deepStrictEqual(symbolTable.getStaticVariables('b.c').map(symbol => symbol.name).sort(), ['count', 'history']);
+        });
+
+        it('finds static variables by full path', () => {
+            assert.deepStrictEqual(symbolTable.getStaticVariables('/build/b.c').map(symbol => symbol.name).sort(), ['count', 'history']);
+            assert.deepStrictEqual(symbolTable.getStaticVariables('/other/b.c'), []);
+        });
+
+        it('reads compile unit file names', async () => {
+            const elf = new ElfFile(program);
+            await elf.load();
+            const units = await readCompileUnits(elf);
+
+            assert.deepStrictEqual(units.map(unit => [unit.name, unit.directory, unit.file]), [
+                ['a.c', '/build', '/build/a.c'],
+                ['b.c', '/build', '/build/b.c']
+            ]);
+            assert.strictEqual(units[0].variables.length, 3);
+            assert.strictEqual(units[1].variables.length, 2);
+        });
+    });
+}
@@ -0,0 +1,75 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import * as assert from 'assert';
+import { childText, decodeEntities, findChild, findChildren, parseXml } from '../xml';
+
+const DOCUMENT = `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE device [ <!ENTITY unused "x"> ]>
+<!-- A comment with <tags> -->
+<device schemaVersion="1.3" vendor='A &amp; B'>
+  <name>Device</name>
+  <description>
+    First &lt;line&gt;
+  </description>
+  <empty/>
+  <item index="1" condition="a > b">One</item>
+  <item index="2"><![CDATA[<raw> & text]]></item>
+</device>`;
+
+describe('parseXml', () => {
+
+    it('parses elements, attributes and text', () => {
+        const device = parseXml(DOCUMENT);
+        assert.strictEqual(device.name, 'device');
+        assert.deepStrictEqual(device.attributes, { schemaVersion: '1.3', vendor: 'A & B' });
+        assert.strictEqual(childText(device, 'name'), 'Device');
+        assert.strictEqual(childText(device, 'description'), 'First <line>');
+        assert.deepStrictEqual(findChild(device, 'empty'), { name: 'empty', attributes: {}, children: [], text: '' });
+        assert.strictEqual(findChild(device, 'missing'), undefined);
+    });
+
+    it('keeps quoted angle brackets in attributes and CDATA as text', () => {
+        const items = findChildren(parseXml(DOCUMENT), 'item');
+        assert.strictEqual(items.length, 2);
+        assert.strictEqual(items[0].attributes.condition, 'a > b');
+        assert.strictEqual(items[0].text, 'One');
+        assert.strictEqual(items[1].text, '<raw> & text');
+    });
+
+    it('rejects malformed documents', () => {
+        assert.throws(() => parseXml('<a><b></a>'), /unexpected closing tag 'a'/);
+        assert.throws(() => parseXml('<a>'), /unclosed element 'a'/);
+        assert.throws(() => parseXml('<a/><b/>'), /single root element/);
+        assert.throws(() => parseXml('<a x="1></a>'), /unterminated attribute/);
+    });
+});
+
+describe('decodeEntities', () => {
+
+    it('decodes named and numeric entities', () => {
+        assert.strictEqual(decodeEntities('&quot;&apos;&#65;&#x42;&unknown;'), '"\'AB&unknown;');
+    });
+});
@@ -0,0 +1,60 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import * as assert from 'assert';
+import { join } from 'path';
+import { ZipArchive } from '../zip';
+
+const FIXTURES = join(__dirname, '..', '..', 'src', 'test', 'fixtures');
+
+describe('ZipArchive', () => {
+
+    let archive: ZipArchive;
+
+    before(async () => {
+        archive = new ZipArchive(join(FIXTURES, 'archive.zip'));
+        await archive.load();
+    });
+
+    it('lists the entries of the central directory', () => {
+        assert.deepStrictEqual(archive.getEntries(), ['stored.txt', 'dir/deflated.txt']);
+    });
+
+    it('reads stored entries', async () => {
+        assert.strictEqual((await archive.readEntry('stored.txt')).toString('utf8'), 'stored contents\n');
+    });
+
+    it('reads deflated entries', async () => {
+        assert.strictEqual((await archive.readEntry('dir/deflated.txt')).toString('utf8'), `${'deflated '.repeat(50)}\n`);
+    });
+
+    it('rejects missing entries', async () => {
+        await assert.rejects(archive.readEntry('missing.txt'), /missing.txt not found/);
+    });
+
+    it('rejects files which are not zip archives', async () => {
+        await assert.rejects(new ZipArchive(join(FIXTURES, 'itm-capture.bin')).load(), /is not a zip archive/);
+    });
+});
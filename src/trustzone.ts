@@ -0,0 +1,78 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { SymbolTable } from './symbols';
+
+export type SecurityState = 'secure' | 'non-secure-callable' | 'non-secure';
+
+// Return address of secure code calling non-secure functions, the real one is pushed on the secure stack
+const FNC_RETURN = 0xFEFFFFFE;
+// Secure gateway veneers are linked into their own section by GNU ld
+const VENEER_SECTION = '.gnu.sgstubs';
+// Integrity signature and callee saved registers stacked before the exception frame
+const ADDITIONAL_STATE_SIZE = 10 * 4;
+
+const SECURITY_LABELS: { [state: string]: string } = {
+    'secure': 'S',
+    'non-secure-callable': 'NSC',
+    'non-secure': 'NS'
+};
+
+export function isFncReturn(value: number): boolean {
+    return ((value & ~1) >>> 0) === FNC_RETURN;
+}
+
+/**
+ * Whether the exception frame was stacked on a secure stack, bit 6 of EXC_RETURN
+ */
+export function isSecureExcReturn(excReturn: number): boolean {
+    return (excReturn & (1 << 6)) !== 0;
+}
+
+/**
+ * Offset of the exception frame on the stack, bit 5 of EXC_RETURN is clear when the additional state was stacked first
+ */
+export function getExceptionFrameOffset(excReturn: number): number {
+    return (excReturn & (1 << 5)) ? 0 : ADDITIONAL_STATE_SIZE;
+}
+
+/**
+ * Security state of code at an address, from the image the address belongs to
+ */
+export function getSecurityState(symbolTable: SymbolTable, address: number): SecurityState | undefined {
+    const section = symbolTable.getSectionAt(address & ~1);
+    if (!section || section.secure === undefined) {
+        return undefined;
+    }
+
+    if (section.secure) {
+        return section.name === VENEER_SECTION ? 'non-secure-callable' : 'secure';
+    }
+    return 'non-secure';
+}
+
+export function formatSecurityState(state: SecurityState): string {
+    return SECURITY_LABELS[state];
+}
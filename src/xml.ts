@@ -0,0 +1,199 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+export interface XmlElement {
+    name: string;
+    attributes: { [name: string]: string };
+    children: XmlElement[];
+    text: string;
+}
+
+const ENTITIES: { [name: string]: string } = {
+    lt: '<',
+    gt: '>',
+    amp: '&',
+    quot: '"',
+    apos: '\''
+};
+
+const NAME_REGEX = /^[^\s/>=]+/;
+const ATTRIBUTE_REGEX = /^([^\s/>=]+)\s*=\s*(["'])/;
+
+export function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|\w+);/g, (match, entity: string) => {
+        if (entity.startsWith('#x')) {
+            return String.fromCharCode(parseInt(entity.substring(2), 16));
+        }
+        if (entity.startsWith('#')) {
+            return String.fromCharCode(parseInt(entity.substring(1), 10));
+        }
+        return ENTITIES[entity] !== undefined ? ENTITIES[entity] : match;
+    });
+}
+
+/**
+ * Minimal XML parser for the descriptor files used by CMSIS (SVD, PDSC).
+ * Mixed content is flattened into the text of the parent element.
+ */
+export function parseXml(contents: string): XmlElement {
+    const root: XmlElement = { name: '', attributes: {}, children: [], text: '' };
+    const stack: XmlElement[] = [root];
+    let index = 0;
+
+    const fail = (message: string): never => {
+        throw new Error(`Invalid XML at offset ${index}: ${message}`);
+    };
+
+    while (index < contents.length) {
+        const start = contents.indexOf('<', index);
+        const current = stack[stack.length - 1];
+
+        if (start === -1) {
+            current.text += decodeEntities(contents.substring(index));
+            break;
+        }
+
+        if (start > index) {
+            current.text += decodeEntities(contents.substring(index, start));
+        }
+        index = start;
+
+        if (contents.startsWith('<!--', index)) {
+            const end = contents.indexOf('-->', index);
+            if (end === -1) {
+                fail('unterminated comment');
+            }
+            index = end + 3;
+        } else if (contents.startsWith('<![CDATA[', index)) {
+            const end = contents.indexOf(']]>', index);
+            if (end === -1) {
+                fail('unterminated CDATA section');
+            }
+            current.text += contents.substring(index + 9, end);
+            index = end + 3;
+        } else if (contents.startsWith('<?', index)) {
+            const end = contents.indexOf('?>', index);
+            if (end === -1) {
+                fail('unterminated processing instruction');
+            }
+            index = end + 2;
+        } else if (contents.startsWith('<!', index)) {
+            // Skip declarations such as DOCTYPE, including any internal subset
+            let depth = 0;
+            while (index < contents.length) {
+                const char = contents[index++];
+                if (char === '[') {
+                    depth++;
+                } else if (char === ']') {
+                    depth--;
+                } else if (char === '>' && depth <= 0) {
+                    break;
+                }
+            }
+        } else if (contents.startsWith('</', index)) {
+            const end = contents.indexOf('>', index);
+            if (end === -1) {
+                fail('unterminated closing tag');
+            }
+            const name = contents.substring(index + 2, end).trim();
+            if (stack.length === 1 || current.name !== name) {
+                fail(`unexpected closing tag '${name}'`);
+            }
+            current.text = current.text.trim();
+            stack.pop();
+            index = end + 1;
+        } else {
+            index++;
+            const nameMatch = contents.substring(index, index + 256).match(NAME_REGEX);
+            if (!nameMatch) {
+                return fail('missing element name');
+            }
+
+            const element: XmlElement = { name: nameMatch[0], attributes: {}, children: [], text: '' };
+            index += nameMatch[0].length;
+            current.children.push(element);
+
+            let selfClosing = false;
+            while (index < contents.length) {
+                while (/\s/.test(contents[index])) {
+                    index++;
+                }
+
+                if (contents.startsWith('/>', index)) {
+                    selfClosing = true;
+                    index += 2;
+                    break;
+                }
+
+                if (contents[index] === '>') {
+                    index++;
+                    break;
+                }
+
+                const attributeMatch = contents.substring(index, index + 256).match(ATTRIBUTE_REGEX);
+                if (!attributeMatch) {
+                    return fail(`invalid attribute in element '${element.name}'`);
+                }
+
+                // Values may contain '>' so search for the matching quote
+                const valueStart = index + attributeMatch[0].length;
+                const valueEnd = contents.indexOf(attributeMatch[2], valueStart);
+                if (valueEnd === -1) {
+                    return fail(`unterminated attribute in element '${element.name}'`);
+                }
+
+                element.attributes[attributeMatch[1]] = decodeEntities(contents.substring(valueStart, valueEnd));
+                index = valueEnd + 1;
+            }
+
+            if (!selfClosing) {
+                stack.push(element);
+            }
+        }
+    }
+
+    if (stack.length > 1) {
+        fail(`unclosed element '${stack[stack.length - 1].name}'`);
+    }
+
+    if (root.children.length !== 1) {
+        fail('expected a single root element');
+    }
+
+    return root.children[0];
+}
+
+export function findChild(element: XmlElement, name: string): XmlElement | undefined {
+    return element.children.find(child => child.name === name);
+}
+
+export function findChildren(element: XmlElement, name: string): XmlElement[] {
+    return element.children.filter(child => child.name === name);
+}
+
+export function childText(element: XmlElement, name: string): string | undefined {
+    const child = findChild(element, name);
+    return child ? child.text : undefined;
+}
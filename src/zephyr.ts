@@ -0,0 +1,104 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { AbstractRtos, RtosTask, TaskContext } from './abstract-rtos';
+import { EXC_RETURN_THREAD_PSP } from './cortex-m';
+import { toHex } from './svd';
+
+const THREAD_PENDING = 1 << 1;
+const THREAD_PRESTART = 1 << 2;
+const THREAD_DEAD = 1 << 3;
+const THREAD_SUSPENDED = 1 << 4;
+const THREAD_QUEUED = 1 << 7;
+
+export class Zephyr extends AbstractRtos {
+
+    public readonly name = 'Zephyr';
+
+    public async getTasks(): Promise<RtosTask[]> {
+        // Older kernels keep the current thread outside of the per-cpu data
+        let current = await this.tryEvaluate('_kernel.cpus[0].current');
+        if (current === undefined) {
+            current = await this.evaluate('_kernel.current');
+        }
+
+        // The thread list requires CONFIG_THREAD_MONITOR
+        const threads = await this.walkList(await this.evaluate('_kernel.threads'), item => `((struct k_thread *)${item})->next_thread`);
+        const tasks: RtosTask[] = [];
+
+        for (const thread of threads) {
+            const state = await this.evaluate(`((struct k_thread *)${thread})->base.thread_state`);
+            tasks.push({
+                id: thread,
+                name: await this.getThreadName(thread),
+                state: thread === current ? 'Running' : this.getThreadState(state),
+                priority: await this.evaluate(`((struct k_thread *)${thread})->base.prio`),
+                current: thread === current
+            });
+        }
+
+        return tasks;
+    }
+
+    public async getTaskContext(task: RtosTask): Promise<TaskContext> {
+        // r4-r11 are saved in the thread rather than on its stack
+        const calleeSaved: number[] = [];
+        for (let i = 1; i <= 8; i++) {
+            calleeSaved.push(await this.evaluate(`((struct k_thread *)${task.id})->callee_saved.v${i}`));
+        }
+
+        const psp = await this.evaluate(`((struct k_thread *)${task.id})->callee_saved.psp`);
+        const mode = await this.tryEvaluate(`((struct k_thread *)${task.id})->arch.mode_exc_return`);
+        const excReturn = mode !== undefined ? (0xFFFFFF00 | mode) >>> 0 : EXC_RETURN_THREAD_PSP;
+        return this.unstackContext(calleeSaved, psp, excReturn);
+    }
+
+    protected async getThreadName(thread: number): Promise<string> {
+        // Names require CONFIG_THREAD_NAME
+        const address = await this.tryEvaluate(`&((struct k_thread *)${thread})->name`);
+        const name = address !== undefined ? await this.readString(address) : '';
+        return name || `thread ${toHex(thread)}`;
+    }
+
+    protected getThreadState(state: number): string {
+        if (state & THREAD_DEAD) {
+            return 'Dead';
+        }
+        if (state & THREAD_SUSPENDED) {
+            return 'Suspended';
+        }
+        if (state & THREAD_PRESTART) {
+            return 'Not started';
+        }
+        if (state & THREAD_PENDING) {
+            return 'Pending';
+        }
+        if (state & THREAD_QUEUED) {
+            return 'Ready';
+        }
+
+        return 'Sleeping';
+    }
+}
@@ -0,0 +1,160 @@
+/*
+* CMSIS Debug Adapter
+* Copyright (c) 2019 Arm Limited
+*
+* The MIT License (MIT)
+*
+* Permission is hereby granted, free of charge, to any person obtaining a copy
+* of this software and associated documentation files (the "Software"), to deal
+* in the Software without restriction, including without limitation the rights
+* to use, copy, modify, merge, publish, distribute, sublicense, and/or sell
+* copies of the Software, and to permit persons to whom the Software is
+* furnished to do so, subject to the following conditions:
+*
+* The above copyright notice and this permission notice shall be included in all
+* copies or substantial portions of the Software.
+*
+* THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+* IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+* FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+* AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+* LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING FROM,
+* OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER DEALINGS IN THE
+* SOFTWARE.
+*/
+
+import { close, fstat, open, read } from 'fs';
+import { promisify } from 'util';
+import { inflateRaw } from 'zlib';
+
+const openAsync = promisify(open);
+const closeAsync = promisify(close);
+const fstatAsync = promisify(fstat);
+const readAsync = promisify(read);
+const inflateRawAsync = promisify(inflateRaw);
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xFFFF;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+interface ZipEntry {
+    name: string;
+    method: number;
+    compressedSize: number;
+    size: number;
+    offset: number;
+}
+
+/**
+ * Read-only access to zip archives such as CMSIS-Packs.
+ * Only the central directory is kept in memory, entries are read on demand.
+ */
+export class ZipArchive {
+
+    private entries = new Map<string, ZipEntry>();
+
+    constructor(private file: string) {
+    }
+
+    public async load(): Promise<void> {
+        const fd = await openAsync(this.file, 'r');
+
+        try {
+            const { size } = await fstatAsync(fd);
+            const tailSize = Math.min(size, END_OF_CENTRAL_DIRECTORY_SIZE + MAX_COMMENT_SIZE);
+            const tail = await this.readBytes(fd, size - tailSize, tailSize);
+
+            let end = -1;
+            for (let i = tail.length - END_OF_CENTRAL_DIRECTORY_SIZE; i >= 0; i--) {
+                if (tail.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+                    end = i;
+                    break;
+                }
+            }
+
+            if (end === -1) {
+                throw new Error(`${this.file} is not a zip archive`);
+            }
+
+            const count = tail.readUInt16LE(end + 10);
+            const directorySize = tail.readUInt32LE(end + 12);
+            const directoryOffset = tail.readUInt32LE(end + 16);
+            const directory = await this.readBytes(fd, directoryOffset, directorySize);
+
+            let position = 0;
+            for (let i = 0; i < count; i++) {
+                if (directory.readUInt32LE(position) !== CENTRAL_DIRECTORY_HEADER) {
+                    throw new Error(`Invalid central directory in ${this.file}`);
+                }
+
+                const nameLength = directory.readUInt16LE(position + 28);
+                const extraLength = directory.readUInt16LE(position + 30);
+                const commentLength = directory.readUInt16LE(position + 32);
+                const name = directory.toString('utf8', position + 46, position + 46 + nameLength);
+
+                this.entries.set(name, {
+                    name,
+                    method: directory.readUInt16LE(position + 10),
+                    compressedSize: directory.readUInt32LE(position + 20),
+                    size: directory.readUInt32LE(position + 24),
+                    offset: directory.readUInt32LE(position + 42)
+                });
+
+                position += 46 + nameLength + extraLength + commentLength;
+            }
+        } finally {
+            await closeAsync(fd);
+        }
+    }
+
+    public getEntries(): string[] {
+        return Array.from(this.entries.keys());
+    }
+
+    public async readEntry(name: string): Promise<Buffer> {
+        const entry = this.entries.get(name);
+        if (!entry) {
+            throw new Error(`${name} not found in ${this.file}`);
+        }
+
+        const fd = await openAsync(this.file, 'r');
+
+        try {
+            const header = await this.readBytes(fd, entry.offset, 30);
+            if (header.readUInt32LE(0) !== LOCAL_FILE_HEADER) {
+                throw new Error(`Invalid entry ${name} in ${this.file}`);
+            }
+
+            // The local header can have a different extra field length to the central directory
+            const dataOffset = entry.offset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+            const data = await this.readBytes(fd, dataOffset, entry.compressedSize);
+
+            switch (entry.method) {
+                case METHOD_STORED:
+                    return data;
+                case METHOD_DEFLATED:
+                    return await inflateRawAsync(data) as Buffer;
+                default:
+                    throw new Error(`Unsupported compression method ${entry.method} for ${name}`);
+            }
+        } finally {
+            await closeAsync(fd);
+        }
+    }
+
+    private async readBytes(fd: number, position: number, length: number): Promise<Buffer> {
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await readAsync(fd, buffer, 0, length, position);
+
+        if (bytesRead !== length) {
+            throw new Error(`Unexpected end of file in ${this.file}`);
+        }
+
+        return buffer;
+    }
+}